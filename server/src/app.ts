@@ -1,12 +1,26 @@
 import { Hono } from 'hono';
+import { bodyLimit } from 'hono/body-limit';
 import { cors } from 'hono/cors';
 import { logger } from 'hono/logger';
 import { authRoutes } from './routes/auth';
 import { chatRoutes } from './routes/chat';
+import { permissionMcpRoutes } from './routes/permission-mcp';
+import { usageRoutes } from './routes/usage';
+import { modelRoutes } from './routes/models';
+import { toolRuleRoutes } from './routes/tool-rules';
+import { searchRoutes } from './routes/search';
+import { tagRoutes } from './routes/tags';
+import { attachmentRoutes } from './routes/attachments';
+import { mcpRoutes } from './routes/mcp';
+import { adminRoutes } from './routes/admin';
 import { authMiddleware } from './middleware/auth';
 import { apiKeyMiddleware } from './middleware/apiKey';
+import { adminMiddleware } from './middleware/admin';
+import { budgetMiddleware } from './middleware/budget';
+import { shutdownMiddleware } from './middleware/shutdown';
 import { standardRateLimit, authRateLimit, claudeRateLimit } from './middleware/rateLimit';
 import { logError } from './services/logger';
+import { MAX_ATTACHMENTS } from './services/attachments';
 import { config } from './config';
 import { ValidationError } from './validation/schemas';
 import { checkDbHealth } from './db/schema';
@@ -38,7 +52,7 @@ if (config.corsOrigins.length > 0) {
   // Production: restrict to configured origins
   app.use('*', cors({
     origin: config.corsOrigins,
-    allowMethods: ['GET', 'POST', 'DELETE', 'OPTIONS'],
+    allowMethods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
     allowHeaders: ['Content-Type', 'Authorization', 'X-API-Key'],
     credentials: true,
   }));
@@ -74,9 +88,76 @@ app.use('/chat/*', authMiddleware);
 // Standard rate limit for read operations
 app.use('/chat', standardRateLimit);
 // Claude rate limit for expensive operations (streaming)
-app.use('/chat/stream', claudeRateLimit);
-app.use('/chat/:id/stream', claudeRateLimit);
+// Only POST starts a run; GET /chat/:id/stream is a cheap reconnect
+app.on('POST', '/chat/stream', claudeRateLimit);
+app.on('POST', '/chat/:id/stream', claudeRateLimit);
+app.on('POST', '/chat/:id/plan/approve', claudeRateLimit);
+app.on('POST', '/chat/:id/messages/:messageId/regenerate', claudeRateLimit);
+app.on('POST', '/chat/:id/messages/:messageId/edit', claudeRateLimit);
+
+// Reject uploads that can't pass validation before reading them (1 MB for the other fields)
+app.on('POST', '/chat/:id/stream', bodyLimit({
+  maxSize: MAX_ATTACHMENTS * config.attachmentMaxBytes + 1024 * 1024,
+  onError: (c) => c.json({ error: 'Request body too large' }, 413),
+}));
+
+// Shutdown and budget checks for every request that spawns Claude
+// ('/chat/:id' also covers POST /chat/stream, and POST /chat/import, which generates a title)
+for (const path of [
+  '/chat',
+  '/chat/:id',
+  '/chat/:id/stream',
+  '/chat/:id/plan/approve',
+  '/chat/:id/messages/:messageId/regenerate',
+  '/chat/:id/messages/:messageId/edit',
+]) {
+  app.on('POST', path, shutdownMiddleware, budgetMiddleware);
+}
 
 app.route('/chat', chatRoutes);
 
+// Usage reporting
+app.use('/usage/*', authMiddleware);
+app.use('/usage/*', standardRateLimit);
+app.route('/usage', usageRoutes);
+
+// Available models
+app.use('/models/*', authMiddleware);
+app.use('/models/*', standardRateLimit);
+app.route('/models', modelRoutes);
+
+// "Always allow" tool rules
+app.use('/tool-rules/*', authMiddleware);
+app.use('/tool-rules/*', standardRateLimit);
+app.route('/tool-rules', toolRuleRoutes);
+
+// Full-text search
+app.use('/search/*', authMiddleware);
+app.use('/search/*', standardRateLimit);
+app.route('/search', searchRoutes);
+
+// Conversation tags
+app.use('/tags/*', authMiddleware);
+app.use('/tags/*', standardRateLimit);
+app.route('/tags', tagRoutes);
+
+// Attachment downloads
+app.use('/attachments/*', authMiddleware);
+app.use('/attachments/*', standardRateLimit);
+app.route('/attachments', attachmentRoutes);
+
+// MCP servers the CLI is configured with
+app.use('/mcp/*', authMiddleware);
+app.use('/mcp/*', standardRateLimit);
+app.route('/mcp', mcpRoutes);
+
+// Admin endpoints (users listed in ADMIN_USER_IDS)
+app.use('/admin/*', authMiddleware);
+app.use('/admin/*', adminMiddleware);
+app.use('/admin/*', standardRateLimit);
+app.route('/admin', adminRoutes);
+
+// Permission prompt MCP endpoint for Claude CLI subprocesses (authorized by per-run token)
+app.route('/permission-mcp', permissionMcpRoutes);
+
 export { app };
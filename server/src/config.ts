@@ -22,6 +22,18 @@ function parsePort(value: string | undefined): number {
   return port;
 }
 
+// Parse a positive integer setting, falling back to a default
+function parsePositiveInt(value: string | undefined, defaultValue: number): number {
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : defaultValue;
+}
+
+// Parse an optional budget limit; unset, zero or invalid means no limit
+function parseBudgetLimit(value: string | undefined): number | null {
+  const limit = Number(value);
+  return value && Number.isFinite(limit) && limit > 0 ? limit : null;
+}
+
 export const config = {
   port: parsePort(process.env.PORT),
   isProduction,
@@ -33,6 +45,8 @@ export const config = {
   // Allowlists
   approvedEmails: (process.env.APPROVED_EMAILS || '').split(',').map(e => e.trim().toLowerCase()).filter(Boolean),
   approvedAppleIds: (process.env.APPROVED_APPLE_IDS || '').split(',').map(id => id.trim()).filter(Boolean),
+  // Users allowed to call /admin endpoints (internal user IDs)
+  adminUserIds: (process.env.ADMIN_USER_IDS || '').split(',').map(id => id.trim()).filter(Boolean),
 
   // Apple configuration
   appleTeamId: process.env.APPLE_TEAM_ID || '',
@@ -44,10 +58,39 @@ export const config = {
   dbPath: process.env.DB_PATH || './ovrlrd.db',
   claudePath: process.env.CLAUDE_PATH || 'claude',
   logPath: process.env.LOG_PATH || './debug.log',
+  // Root of the per-conversation directories uploaded attachments are stored in
+  attachmentsDir: process.env.ATTACHMENTS_DIR || './attachments',
+  // Largest attachment accepted (default 10 MB)
+  attachmentMaxBytes: parsePositiveInt(process.env.ATTACHMENT_MAX_MB, 10) * 1024 * 1024,
 
   // Claude CLI settings
   claudeWorkDir: process.env.CLAUDE_WORK_DIR || process.env.HOME || '/',
   claudeAdditionalDirs: (process.env.CLAUDE_ADDITIONAL_DIRS || '').split(':').filter(Boolean),
+  // Roots a conversation's working directory must be under (defaults to CLAUDE_WORK_DIR)
+  claudeAllowedRoots: (process.env.CLAUDE_ALLOWED_ROOTS || '').split(':').filter(Boolean),
+  // Pause runs on permission prompts and ask the phone, instead of denying and re-running
+  claudeLivePermissions: process.env.CLAUDE_LIVE_PERMISSIONS !== 'false',
+  // On startup, restore text of runs interrupted by a crash from the CLI session transcript
+  recoverFromTranscript: process.env.RECOVER_FROM_TRANSCRIPT !== 'false',
+  // Model aliases conversations may choose from (passed as --model)
+  claudeModels: (process.env.CLAUDE_MODELS || 'sonnet,opus,haiku').split(',').map(m => m.trim()).filter(Boolean),
+  // Stream text token by token instead of one whole assistant message at a time
+  claudePartialMessages: process.env.CLAUDE_PARTIAL_MESSAGES !== 'false',
+  // Max Claude processes running at once; further runs wait in a queue
+  claudeMaxConcurrent: parsePositiveInt(process.env.CLAUDE_MAX_CONCURRENT, 3),
+  // Let users take turns in the queue instead of strict FIFO
+  claudeQueueFairShare: process.env.CLAUDE_QUEUE_FAIR_SHARE === 'true',
+
+  // Default spending budgets per user (overridable per user via /admin/budgets)
+  budgetDefaults: {
+    dailyCostUsd: parseBudgetLimit(process.env.BUDGET_DAILY_COST_USD),
+    monthlyCostUsd: parseBudgetLimit(process.env.BUDGET_MONTHLY_COST_USD),
+    dailyTokens: parseBudgetLimit(process.env.BUDGET_DAILY_TOKENS),
+    monthlyTokens: parseBudgetLimit(process.env.BUDGET_MONTHLY_TOKENS),
+  },
+
+  // How long shutdown waits for active runs before cancelling them (default 30 seconds)
+  shutdownDrainMs: parsePositiveInt(process.env.SHUTDOWN_DRAIN_SECONDS, 30) * 1000,
 
   // CORS - configure allowed origins
   corsOrigins: (process.env.CORS_ORIGINS || '').split(',').map(o => o.trim()).filter(Boolean),
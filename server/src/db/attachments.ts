@@ -0,0 +1,93 @@
+import { getDb } from './schema';
+
+export interface MessageAttachment {
+  id: string;
+  messageId: string;
+  conversationId: string;
+  // Name the file was uploaded with
+  filename: string;
+  mimeType: string;
+  size: number;
+  createdAt: string;
+}
+
+interface MessageAttachmentRow {
+  id: string;
+  message_id: string;
+  conversation_id: string;
+  filename: string;
+  mime_type: string;
+  size: number;
+  created_at: string;
+}
+
+function rowToAttachment(row: MessageAttachmentRow): MessageAttachment {
+  return {
+    id: row.id,
+    messageId: row.message_id,
+    conversationId: row.conversation_id,
+    filename: row.filename,
+    mimeType: row.mime_type,
+    size: row.size,
+    createdAt: row.created_at,
+  };
+}
+
+/**
+ * A stored file to record as an attachment of a new message
+ */
+export type AttachmentInput = Pick<MessageAttachment, 'id' | 'filename' | 'mimeType' | 'size'>;
+
+/**
+ * Record attachments whose files have been stored (called inside the
+ * transaction that creates their message)
+ */
+export function insertAttachments(
+  messageId: string,
+  conversationId: string,
+  attachments: AttachmentInput[],
+  createdAt: string
+): MessageAttachment[] {
+  if (attachments.length === 0) return [];
+
+  const db = getDb();
+  const stmt = db.prepare(
+    'INSERT INTO message_attachments (id, message_id, conversation_id, filename, mime_type, size, created_at) VALUES (?, ?, ?, ?, ?, ?, ?)'
+  );
+
+  return attachments.map((attachment) => {
+    stmt.run(attachment.id, messageId, conversationId, attachment.filename, attachment.mimeType, attachment.size, createdAt);
+    return { ...attachment, messageId, conversationId, createdAt };
+  });
+}
+
+export async function getAttachment(id: string): Promise<MessageAttachment | null> {
+  const db = getDb();
+  const row = db.query<MessageAttachmentRow, [string]>(
+    'SELECT * FROM message_attachments WHERE id = ?'
+  ).get(id);
+
+  return row ? rowToAttachment(row) : null;
+}
+
+/**
+ * The attachments of the given messages, by message ID, in upload order
+ */
+export function getAttachmentsByMessage(messageIds: string[]): Map<string, MessageAttachment[]> {
+  const attachmentsByMessage = new Map<string, MessageAttachment[]>();
+  if (messageIds.length === 0) return attachmentsByMessage;
+
+  const db = getDb();
+  const placeholders = messageIds.map(() => '?').join(', ');
+  const rows = db.query<MessageAttachmentRow, string[]>(
+    `SELECT * FROM message_attachments WHERE message_id IN (${placeholders}) ORDER BY message_id, rowid`
+  ).all(...messageIds);
+
+  for (const row of rows) {
+    const attachments = attachmentsByMessage.get(row.message_id) ?? [];
+    attachments.push(rowToAttachment(row));
+    attachmentsByMessage.set(row.message_id, attachments);
+  }
+
+  return attachmentsByMessage;
+}
@@ -0,0 +1,79 @@
+import { getDb } from './schema';
+
+/**
+ * Spending limits for a user. `null` means no limit.
+ */
+export interface BudgetLimits {
+  dailyCostUsd: number | null;
+  monthlyCostUsd: number | null;
+  dailyTokens: number | null;
+  monthlyTokens: number | null;
+}
+
+interface UserBudgetRow {
+  user_id: string;
+  daily_cost_usd: number | null;
+  monthly_cost_usd: number | null;
+  daily_tokens: number | null;
+  monthly_tokens: number | null;
+  updated_at: string;
+}
+
+// Maps API field names to user_budgets columns
+const BUDGET_COLUMNS: Record<keyof BudgetLimits, string> = {
+  dailyCostUsd: 'daily_cost_usd',
+  monthlyCostUsd: 'monthly_cost_usd',
+  dailyTokens: 'daily_tokens',
+  monthlyTokens: 'monthly_tokens',
+};
+
+function rowToLimits(row: UserBudgetRow): BudgetLimits {
+  return {
+    dailyCostUsd: row.daily_cost_usd,
+    monthlyCostUsd: row.monthly_cost_usd,
+    dailyTokens: row.daily_tokens,
+    monthlyTokens: row.monthly_tokens,
+  };
+}
+
+/**
+ * Get a user's budget overrides. Null fields (or a null result) fall back to the server defaults.
+ */
+export async function getUserBudgetOverrides(userId: string): Promise<BudgetLimits | null> {
+  const db = getDb();
+  const row = db.query<UserBudgetRow, [string]>(
+    'SELECT * FROM user_budgets WHERE user_id = ?'
+  ).get(userId);
+
+  return row ? rowToLimits(row) : null;
+}
+
+/**
+ * Set budget overrides for a user. Only the given fields are changed;
+ * `null` clears an override so the server default applies again.
+ */
+export async function setUserBudgetOverrides(
+  userId: string,
+  overrides: Partial<BudgetLimits>
+): Promise<BudgetLimits> {
+  const db = getDb();
+  const assignments: string[] = [];
+  const params: (number | null)[] = [];
+
+  for (const [field, column] of Object.entries(BUDGET_COLUMNS)) {
+    const value = overrides[field as keyof BudgetLimits];
+    if (value !== undefined) {
+      assignments.push(`${column} = ?`);
+      params.push(value);
+    }
+  }
+
+  db.query('INSERT OR IGNORE INTO user_budgets (user_id) VALUES (?)').run(userId);
+  db.query(
+    `UPDATE user_budgets SET ${[...assignments, "updated_at = datetime('now')"].join(', ')} WHERE user_id = ?`
+  ).run(...params, userId);
+
+  const updated = await getUserBudgetOverrides(userId);
+  if (!updated) throw new Error('Failed to update budget');
+  return updated;
+}
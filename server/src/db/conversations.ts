@@ -1,4 +1,5 @@
 import { getDb } from './schema';
+import { getAttachmentsByMessage, insertAttachments, type AttachmentInput, type MessageAttachment } from './attachments';
 
 /**
  * Format a Date as SQLite-compatible timestamp string (UTC)
@@ -16,16 +17,109 @@ export interface Conversation {
   userId: string;
   claudeSessionId: string | null;
   title: string | null;
+  extendedThinking: boolean | null;
+  model: string | null;
+  permissionMode: PermissionMode | null;
+  // Fixed at creation: CLI sessions belong to the directory they were started in
+  workDir: string | null;
+  // MCP servers the CLI is limited to (names from GET /mcp/servers); null loads them all
+  mcpServers: string[] | null;
+  // Set on forks: the conversation and message they branched from
+  parentConversationId: string | null;
+  forkMessageId: string | null;
+  // True until the fork's first run branches off the parent's CLI session
+  forkSessionPending: boolean;
+  // Transcript entry the next run resumes the session at, after a fork or rewind
+  resumeSessionAt: string | null;
+  pinned: boolean;
+  archived: boolean;
+  color: ConversationColor | null;
+  // Set once the user renamed the conversation: titles are no longer generated
+  titleLocked: boolean;
   createdAt: string;
   updatedAt: string;
+  tags?: ConversationTag[];
 }
 
+/**
+ * A tag as attached to a conversation (see db/tags for the full tag)
+ */
+export interface ConversationTag {
+  id: string;
+  name: string;
+  color: ConversationColor | null;
+}
+
+/**
+ * CLI permission mode: `plan` only plans, `acceptEdits` applies file edits without asking
+ */
+export type PermissionMode = 'default' | 'acceptEdits' | 'plan';
+
+/**
+ * Per-conversation settings that change how Claude is invoked
+ */
+export interface ConversationSettings {
+  extendedThinking?: boolean | null;
+  model?: string | null;
+  permissionMode?: PermissionMode | null;
+  mcpServers?: string[] | null;
+}
+
+/**
+ * Colors a conversation can be marked with (the names of the iOS system colors)
+ */
+export const CONVERSATION_COLORS = [
+  'red', 'orange', 'yellow', 'green', 'mint', 'teal', 'cyan', 'blue', 'indigo', 'purple', 'pink', 'brown',
+] as const;
+
+export type ConversationColor = typeof CONVERSATION_COLORS[number];
+
+/**
+ * How the user organizes a conversation. Setting a title locks it; null unlocks it.
+ */
+export interface ConversationMetadata {
+  title?: string | null;
+  pinned?: boolean;
+  archived?: boolean;
+  color?: ConversationColor | null;
+}
+
+export type ConversationUpdate = ConversationSettings & ConversationMetadata;
+
 export interface Message {
   id: string;
   conversationId: string;
   role: 'user' | 'assistant' | 'system';
   content: string;
+  runId: string | null;
+  // Set on old versions of an edited or regenerated turn: the user message that replaced them
+  supersededBy: string | null;
   createdAt: string;
+  parts?: MessagePart[];
+  attachments?: MessageAttachment[];
+}
+
+export type MessagePartType = 'text' | 'thinking' | 'tool_use' | 'tool_result' | 'command_output';
+
+export interface MessagePart {
+  id: string;
+  messageId: string;
+  position: number;
+  type: MessagePartType;
+  content: string | null;
+  toolUseId: string | null;
+  toolName: string | null;
+  input: unknown;
+  isError: boolean;
+}
+
+export interface MessagePartInput {
+  type: MessagePartType;
+  content?: string;
+  toolUseId?: string | null;
+  toolName?: string;
+  input?: unknown;
+  isError?: boolean;
 }
 
 interface ConversationRow {
@@ -33,6 +127,19 @@ interface ConversationRow {
   user_id: string;
   claude_session_id: string | null;
   title: string | null;
+  extended_thinking: number | null;
+  model: string | null;
+  permission_mode: string | null;
+  work_dir: string | null;
+  mcp_servers: string | null;
+  parent_conversation_id: string | null;
+  fork_message_id: string | null;
+  fork_session_pending: number;
+  resume_session_at: string | null;
+  pinned: number;
+  archived: number;
+  color: string | null;
+  title_locked: number;
   created_at: string;
   updated_at: string;
 }
@@ -42,15 +149,42 @@ interface MessageRow {
   conversation_id: string;
   role: string;
   content: string;
+  run_id: string | null;
+  superseded_by: string | null;
   created_at: string;
 }
 
+interface MessagePartRow {
+  id: string;
+  message_id: string;
+  position: number;
+  type: string;
+  content: string | null;
+  tool_use_id: string | null;
+  tool_name: string | null;
+  input: string | null;
+  is_error: number;
+}
+
 function rowToConversation(row: ConversationRow): Conversation {
   return {
     id: row.id,
     userId: row.user_id,
     claudeSessionId: row.claude_session_id,
     title: row.title,
+    extendedThinking: row.extended_thinking === null ? null : row.extended_thinking === 1,
+    model: row.model,
+    permissionMode: row.permission_mode as PermissionMode | null,
+    workDir: row.work_dir,
+    mcpServers: row.mcp_servers ? JSON.parse(row.mcp_servers) : null,
+    parentConversationId: row.parent_conversation_id,
+    forkMessageId: row.fork_message_id,
+    forkSessionPending: row.fork_session_pending === 1,
+    resumeSessionAt: row.resume_session_at,
+    pinned: row.pinned === 1,
+    archived: row.archived === 1,
+    color: row.color as ConversationColor | null,
+    titleLocked: row.title_locked === 1,
     createdAt: row.created_at,
     updatedAt: row.updated_at,
   };
@@ -62,17 +196,53 @@ function rowToMessage(row: MessageRow): Message {
     conversationId: row.conversation_id,
     role: row.role as 'user' | 'assistant' | 'system',
     content: row.content,
+    runId: row.run_id,
+    supersededBy: row.superseded_by,
     createdAt: row.created_at,
   };
 }
 
-export async function createConversation(userId: string): Promise<Conversation> {
+function toNullableFlag(value: boolean | null | undefined): number | null {
+  return value === null || value === undefined ? null : value ? 1 : 0;
+}
+
+function toJsonList(value: string[] | null | undefined): string | null {
+  return value === null || value === undefined ? null : JSON.stringify(value);
+}
+
+function rowToMessagePart(row: MessagePartRow): MessagePart {
+  return {
+    id: row.id,
+    messageId: row.message_id,
+    position: row.position,
+    type: row.type as MessagePartType,
+    content: row.content,
+    toolUseId: row.tool_use_id,
+    toolName: row.tool_name,
+    input: row.input ? JSON.parse(row.input) : null,
+    isError: row.is_error === 1,
+  };
+}
+
+export async function createConversation(
+  userId: string,
+  settings: ConversationSettings = {},
+  workDir: string | null = null
+): Promise<Conversation> {
   const db = getDb();
   const id = crypto.randomUUID();
 
   db.query(
-    'INSERT INTO conversations (id, user_id) VALUES (?, ?)'
-  ).run(id, userId);
+    'INSERT INTO conversations (id, user_id, extended_thinking, model, permission_mode, mcp_servers, work_dir) VALUES (?, ?, ?, ?, ?, ?, ?)'
+  ).run(
+    id,
+    userId,
+    toNullableFlag(settings.extendedThinking),
+    settings.model ?? null,
+    settings.permissionMode ?? null,
+    toJsonList(settings.mcpServers),
+    workDir
+  );
 
   const conversation = await getConversation(id);
   if (!conversation) throw new Error('Failed to create conversation');
@@ -85,7 +255,36 @@ export async function getConversation(id: string): Promise<Conversation | null>
     'SELECT * FROM conversations WHERE id = ?'
   ).get(id);
 
-  return row ? rowToConversation(row) : null;
+  return row ? attachConversationTags([rowToConversation(row)])[0] ?? null : null;
+}
+
+/**
+ * Load the tags of the given conversations and attach them in name order
+ */
+function attachConversationTags(conversations: Conversation[]): Conversation[] {
+  if (conversations.length === 0) return conversations;
+
+  const db = getDb();
+  const placeholders = conversations.map(() => '?').join(', ');
+  const rows = db.query<{ conversation_id: string; id: string; name: string; color: string | null }, string[]>(
+    `SELECT ct.conversation_id, t.id, t.name, t.color
+     FROM conversation_tags ct
+     JOIN tags t ON t.id = ct.tag_id
+     WHERE ct.conversation_id IN (${placeholders})
+     ORDER BY t.name`
+  ).all(...conversations.map((c) => c.id));
+
+  const tagsByConversation = new Map<string, ConversationTag[]>();
+  for (const row of rows) {
+    const tags = tagsByConversation.get(row.conversation_id) ?? [];
+    tags.push({ id: row.id, name: row.name, color: row.color as ConversationColor | null });
+    tagsByConversation.set(row.conversation_id, tags);
+  }
+
+  return conversations.map((conversation) => ({
+    ...conversation,
+    tags: tagsByConversation.get(conversation.id) ?? [],
+  }));
 }
 
 export interface PaginationOptions {
@@ -93,6 +292,18 @@ export interface PaginationOptions {
   cursor?: string; // ISO timestamp for cursor-based pagination
 }
 
+export interface ConversationListOptions extends PaginationOptions {
+  // Only forks of this conversation
+  parentId?: string;
+  // Only conversations with this tag ID
+  tag?: string;
+  // Archived conversations instead of the others (default: false)
+  archived?: boolean;
+}
+
+// Cursors of the pinned section of the conversation list carry this prefix
+const PINNED_CURSOR_PREFIX = 'pinned:';
+
 export interface PaginatedResult<T> {
   items: T[];
   hasMore: boolean;
@@ -103,38 +314,49 @@ const DEFAULT_PAGE_SIZE = 20;
 
 export async function getConversations(
   userId: string,
-  options: PaginationOptions = {}
+  options: ConversationListOptions = {}
 ): Promise<PaginatedResult<Conversation>> {
   const db = getDb();
   const limit = options.limit || DEFAULT_PAGE_SIZE;
 
-  let query: string;
-  let params: (string | number)[];
+  const conditions = ['user_id = ?', 'archived = ?'];
+  const params: (string | number)[] = [userId, options.archived ? 1 : 0];
 
-  if (options.cursor) {
-    query = `
-      SELECT * FROM conversations
-      WHERE user_id = ? AND updated_at < ?
-      ORDER BY updated_at DESC
-      LIMIT ?
-    `;
-    params = [userId, options.cursor, limit + 1];
-  } else {
-    query = `
-      SELECT * FROM conversations
-      WHERE user_id = ?
-      ORDER BY updated_at DESC
-      LIMIT ?
-    `;
-    params = [userId, limit + 1];
+  // Pinned conversations come first, so the cursor also says which section it is in
+  if (options.cursor?.startsWith(PINNED_CURSOR_PREFIX)) {
+    conditions.push('(pinned = 0 OR updated_at < ?)');
+    params.push(options.cursor.slice(PINNED_CURSOR_PREFIX.length));
+  } else if (options.cursor) {
+    conditions.push('pinned = 0 AND updated_at < ?');
+    params.push(options.cursor);
   }
 
+  if (options.parentId) {
+    conditions.push('parent_conversation_id = ?');
+    params.push(options.parentId);
+  }
+
+  if (options.tag) {
+    conditions.push('id IN (SELECT conversation_id FROM conversation_tags WHERE tag_id = ?)');
+    params.push(options.tag);
+  }
+
+  const query = `
+    SELECT * FROM conversations
+    WHERE ${conditions.join(' AND ')}
+    ORDER BY pinned DESC, updated_at DESC
+    LIMIT ?
+  `;
+  params.push(limit + 1);
+
   const rows = db.query<ConversationRow, (string | number)[]>(query).all(...params);
 
   const hasMore = rows.length > limit;
-  const items = rows.slice(0, limit).map(rowToConversation);
+  const items = attachConversationTags(rows.slice(0, limit).map(rowToConversation));
   const lastItem = items[items.length - 1];
-  const nextCursor = hasMore && lastItem ? lastItem.updatedAt : null;
+  const nextCursor = hasMore && lastItem
+    ? `${lastItem.pinned ? PINNED_CURSOR_PREFIX : ''}${lastItem.updatedAt}`
+    : null;
 
   return { items, hasMore, nextCursor };
 }
@@ -143,17 +365,26 @@ export async function createMessage(data: {
   conversationId: string;
   role: 'user' | 'assistant' | 'system';
   content: string;
+  parts?: MessagePartInput[];
+  runId?: string;
+  // Files already stored for a user message
+  attachments?: AttachmentInput[];
 }): Promise<Message> {
   const db = getDb();
   const id = crypto.randomUUID();
   const now = formatSqliteTimestamp(new Date());
+  const parts = toMessageParts(id, data.parts ?? [], 0);
+  let attachments: MessageAttachment[] = [];
 
-  // Use transaction for atomicity - both operations succeed or both fail
+  // Use transaction for atomicity - all operations succeed or all fail
   db.exec('BEGIN TRANSACTION');
   try {
     db.query(
-      'INSERT INTO messages (id, conversation_id, role, content, created_at) VALUES (?, ?, ?, ?, ?)'
-    ).run(id, data.conversationId, data.role, data.content, now);
+      'INSERT INTO messages (id, conversation_id, role, content, run_id, created_at) VALUES (?, ?, ?, ?, ?, ?)'
+    ).run(id, data.conversationId, data.role, data.content, data.runId ?? null, now);
+
+    insertMessageParts(parts, now);
+    attachments = insertAttachments(id, data.conversationId, data.attachments ?? [], now);
 
     db.query(
       'UPDATE conversations SET updated_at = ? WHERE id = ?'
@@ -171,17 +402,181 @@ export async function createMessage(data: {
     conversationId: data.conversationId,
     role: data.role,
     content: data.content,
+    runId: data.runId ?? null,
+    supersededBy: null,
     createdAt: now,
+    parts,
+    ...(data.attachments && { attachments }),
   };
 }
 
+/**
+ * A message of an imported CLI session, with its original timestamp
+ */
+export interface ImportedMessageInput {
+  role: 'user' | 'assistant';
+  content: string;
+  parts?: MessagePartInput[];
+  createdAt: Date;
+}
+
+/**
+ * Insert imported messages in one transaction, keeping their original
+ * timestamps (nudged forward where needed so they stay in order).
+ * The conversation's updated_at becomes the time of the last message.
+ */
+export async function importMessages(conversationId: string, messages: ImportedMessageInput[]): Promise<void> {
+  if (messages.length === 0) return;
+
+  const db = getDb();
+  const insertMessage = db.prepare(
+    'INSERT INTO messages (id, conversation_id, role, content, created_at) VALUES (?, ?, ?, ?, ?)'
+  );
+
+  let previousTime = 0;
+  let lastTimestamp = '';
+
+  db.exec('BEGIN TRANSACTION');
+  try {
+    for (const message of messages) {
+      const time = Math.max(message.createdAt.getTime(), previousTime + 1);
+      previousTime = time;
+      lastTimestamp = formatSqliteTimestamp(new Date(time));
+
+      const id = crypto.randomUUID();
+      insertMessage.run(id, conversationId, message.role, message.content, lastTimestamp);
+      insertMessageParts(toMessageParts(id, message.parts ?? [], 0), lastTimestamp);
+    }
+
+    db.query(
+      'UPDATE conversations SET updated_at = ? WHERE id = ?'
+    ).run(lastTimestamp, conversationId);
+
+    db.exec('COMMIT');
+  } catch (error) {
+    db.exec('ROLLBACK');
+    throw error;
+  }
+}
+
+/**
+ * Append parts to an existing message, after its current parts
+ */
+export async function appendMessageParts(messageId: string, inputs: MessagePartInput[]): Promise<void> {
+  if (inputs.length === 0) return;
+
+  const db = getDb();
+  const row = db.query<{ next_position: number }, [string]>(
+    'SELECT COALESCE(MAX(position) + 1, 0) as next_position FROM message_parts WHERE message_id = ?'
+  ).get(messageId);
+
+  const parts = toMessageParts(messageId, inputs, row?.next_position ?? 0);
+
+  db.exec('BEGIN TRANSACTION');
+  try {
+    insertMessageParts(parts, formatSqliteTimestamp(new Date()));
+    db.exec('COMMIT');
+  } catch (error) {
+    db.exec('ROLLBACK');
+    throw error;
+  }
+}
+
+/**
+ * Count the messages of a role that a run has stored
+ */
+export async function countRunMessages(runId: string, role: Message['role']): Promise<number> {
+  const db = getDb();
+  const row = db.query<{ count: number }, [string, string]>(
+    'SELECT COUNT(*) as count FROM messages WHERE run_id = ? AND role = ?'
+  ).get(runId, role);
+
+  return row?.count ?? 0;
+}
+
+function toMessageParts(messageId: string, inputs: MessagePartInput[], firstPosition: number): MessagePart[] {
+  return inputs.map((part, index) => ({
+    id: crypto.randomUUID(),
+    messageId,
+    position: firstPosition + index,
+    type: part.type,
+    content: part.content ?? null,
+    toolUseId: part.toolUseId ?? null,
+    toolName: part.toolName ?? null,
+    input: part.input ?? null,
+    isError: part.isError ?? false,
+  }));
+}
+
+/**
+ * Insert message parts. Callers are responsible for the surrounding transaction.
+ */
+function insertMessageParts(parts: MessagePart[], createdAt: string): void {
+  if (parts.length === 0) return;
+
+  const db = getDb();
+  const stmt = db.prepare(`
+    INSERT INTO message_parts
+      (id, message_id, position, type, content, tool_use_id, tool_name, input, is_error, created_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+
+  for (const part of parts) {
+    stmt.run(
+      part.id,
+      part.messageId,
+      part.position,
+      part.type,
+      part.content,
+      part.toolUseId,
+      part.toolName,
+      part.input !== null && part.input !== undefined ? JSON.stringify(part.input) : null,
+      part.isError ? 1 : 0,
+      createdAt
+    );
+  }
+}
+
+/**
+ * Load the parts of the given messages and attach them in position order
+ */
+function attachMessageParts(messages: Message[]): Message[] {
+  if (messages.length === 0) return messages;
+
+  const db = getDb();
+  const placeholders = messages.map(() => '?').join(', ');
+  const rows = db.query<MessagePartRow, string[]>(
+    `SELECT * FROM message_parts WHERE message_id IN (${placeholders}) ORDER BY message_id, position`
+  ).all(...messages.map((m) => m.id));
+
+  const partsByMessage = new Map<string, MessagePart[]>();
+  for (const row of rows) {
+    const parts = partsByMessage.get(row.message_id) ?? [];
+    parts.push(rowToMessagePart(row));
+    partsByMessage.set(row.message_id, parts);
+  }
+
+  return messages.map((message) => ({ ...message, parts: partsByMessage.get(message.id) ?? [] }));
+}
+
+/**
+ * Attach the parts and attachments of the given messages
+ */
+function attachMessageDetails(messages: Message[]): Message[] {
+  const attachmentsByMessage = getAttachmentsByMessage(messages.map((m) => m.id));
+  return attachMessageParts(messages).map((message) => ({
+    ...message,
+    attachments: attachmentsByMessage.get(message.id) ?? [],
+  }));
+}
+
 export async function getMessage(id: string): Promise<Message | null> {
   const db = getDb();
   const row = db.query<MessageRow, [string]>(
     'SELECT * FROM messages WHERE id = ?'
   ).get(id);
 
-  return row ? rowToMessage(row) : null;
+  return row ? attachMessageDetails([rowToMessage(row)])[0] ?? null : null;
 }
 
 export async function getMessages(
@@ -199,7 +594,7 @@ export async function getMessages(
     // cursor is the createdAt of the oldest message we have
     query = `
       SELECT * FROM messages
-      WHERE conversation_id = ? AND created_at < ?
+      WHERE conversation_id = ? AND superseded_by IS NULL AND created_at < ?
       ORDER BY created_at DESC
       LIMIT ?
     `;
@@ -208,7 +603,7 @@ export async function getMessages(
     // Initial load: get the most recent messages
     query = `
       SELECT * FROM messages
-      WHERE conversation_id = ?
+      WHERE conversation_id = ? AND superseded_by IS NULL
       ORDER BY created_at DESC
       LIMIT ?
     `;
@@ -219,35 +614,263 @@ export async function getMessages(
 
   const hasMore = rows.length > limit;
   // Reverse to get chronological order (oldest first)
-  const items = rows.slice(0, limit).reverse().map(rowToMessage);
+  const items = attachMessageDetails(rows.slice(0, limit).reverse().map(rowToMessage));
   const firstItem = items[0]; // The oldest message
   const nextCursor = hasMore && firstItem ? firstItem.createdAt : null;
 
   return { items, hasMore, nextCursor };
 }
 
+/**
+ * The complete history of a conversation, oldest first (no pagination, e.g. for export)
+ */
+export async function getAllMessages(conversationId: string): Promise<Message[]> {
+  const db = getDb();
+  const rows = db.query<MessageRow, [string]>(
+    'SELECT * FROM messages WHERE conversation_id = ? AND superseded_by IS NULL ORDER BY created_at ASC'
+  ).all(conversationId);
+
+  return attachMessageDetails(rows.map(rowToMessage));
+}
+
+/**
+ * Old versions of a turn that a user message replaced, oldest first
+ */
+export async function getAlternates(messageId: string): Promise<Message[]> {
+  const db = getDb();
+  const rows = db.query<MessageRow, [string]>(
+    'SELECT * FROM messages WHERE superseded_by = ? ORDER BY created_at ASC'
+  ).all(messageId);
+
+  return attachMessageDetails(rows.map(rowToMessage));
+}
+
+/**
+ * Replace the last turn of a conversation with a new user message, in one
+ * transaction. The old user message and everything after it (along with
+ * the alternates it already had) become alternates of the new message, which
+ * takes over its attachments. The next run resumes the CLI session at the
+ * given point with --fork-session.
+ */
+export async function replaceLastTurn(
+  userMessage: Message,
+  data: {
+    content: string;
+    claudeSessionId: string | null;
+    resumeSessionAt: string | null;
+  }
+): Promise<Message> {
+  const db = getDb();
+  const id = crypto.randomUUID();
+  const now = formatSqliteTimestamp(new Date());
+
+  db.exec('BEGIN TRANSACTION');
+  try {
+    db.query(
+      'UPDATE messages SET superseded_by = ? WHERE superseded_by = ?'
+    ).run(id, userMessage.id);
+
+    db.query(
+      'UPDATE messages SET superseded_by = ? WHERE conversation_id = ? AND superseded_by IS NULL AND created_at >= ?'
+    ).run(id, userMessage.conversationId, userMessage.createdAt);
+
+    db.query(
+      "INSERT INTO messages (id, conversation_id, role, content, created_at) VALUES (?, ?, 'user', ?, ?)"
+    ).run(id, userMessage.conversationId, data.content, now);
+
+    // The files sent with the turn go with its new version
+    db.query(
+      'UPDATE message_attachments SET message_id = ? WHERE message_id = ?'
+    ).run(id, userMessage.id);
+
+    db.query(
+      `UPDATE conversations
+       SET claude_session_id = ?, resume_session_at = ?, fork_session_pending = ?, updated_at = ?
+       WHERE id = ?`
+    ).run(
+      data.claudeSessionId,
+      data.resumeSessionAt,
+      data.claudeSessionId ? 1 : 0,
+      now,
+      userMessage.conversationId
+    );
+
+    db.exec('COMMIT');
+  } catch (error) {
+    db.exec('ROLLBACK');
+    throw error;
+  }
+
+  const message = await getMessage(id);
+  if (!message) throw new Error('Failed to replace turn');
+  return message;
+}
+
+/**
+ * Store the session the CLI reported. After a fork or rewind this is the new
+ * branch of the session, so later runs resume it without forking again.
+ */
 export async function updateClaudeSessionId(
   conversationId: string,
   claudeSessionId: string
 ): Promise<void> {
   const db = getDb();
   db.query(
-    "UPDATE conversations SET claude_session_id = ?, updated_at = datetime('now') WHERE id = ?"
+    `UPDATE conversations
+     SET claude_session_id = ?, fork_session_pending = 0, resume_session_at = NULL, updated_at = datetime('now')
+     WHERE id = ?`
   ).run(claudeSessionId, conversationId);
 }
 
+/**
+ * Create a fork of a conversation with copies of the given messages (and
+ * their parts), keeping their timestamps, in one transaction. Attachments are
+ * recorded under the IDs the messages carry, so the caller must give the
+ * copies new ones (and copy their files). The fork takes
+ * over the source's settings and directory; its first run branches off
+ * `claudeSessionId` with --fork-session.
+ */
+export async function forkConversation(
+  source: Conversation,
+  data: {
+    messages: Message[];
+    forkMessageId: string | null;
+    claudeSessionId: string | null;
+    resumeSessionAt: string | null;
+    title: string | null;
+  }
+): Promise<Conversation> {
+  const db = getDb();
+  const id = crypto.randomUUID();
+  const insertMessage = db.prepare(
+    'INSERT INTO messages (id, conversation_id, role, content, created_at) VALUES (?, ?, ?, ?, ?)'
+  );
+
+  db.exec('BEGIN TRANSACTION');
+  try {
+    db.query(
+      `INSERT INTO conversations
+        (id, user_id, claude_session_id, resume_session_at, title, extended_thinking, model, permission_mode,
+         mcp_servers, work_dir, parent_conversation_id, fork_message_id, fork_session_pending)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    ).run(
+      id,
+      source.userId,
+      data.claudeSessionId,
+      data.resumeSessionAt,
+      data.title,
+      toNullableFlag(source.extendedThinking),
+      source.model,
+      source.permissionMode,
+      toJsonList(source.mcpServers),
+      source.workDir,
+      source.id,
+      data.forkMessageId,
+      data.claudeSessionId ? 1 : 0
+    );
+
+    for (const message of data.messages) {
+      const messageId = crypto.randomUUID();
+      insertMessage.run(messageId, id, message.role, message.content, message.createdAt);
+      const parts = (message.parts ?? []).map((part) => ({ ...part, id: crypto.randomUUID(), messageId }));
+      insertMessageParts(parts, message.createdAt);
+      insertAttachments(messageId, id, message.attachments ?? [], message.createdAt);
+    }
+
+    db.exec('COMMIT');
+  } catch (error) {
+    db.exec('ROLLBACK');
+    throw error;
+  }
+
+  const conversation = await getConversation(id);
+  if (!conversation) throw new Error('Failed to create fork');
+  return conversation;
+}
+
 export async function deleteConversation(conversationId: string): Promise<void> {
   const db = getDb();
   // Messages are deleted automatically via ON DELETE CASCADE
   db.query('DELETE FROM conversations WHERE id = ?').run(conversationId);
 }
 
+/**
+ * Set a generated title. Returns false, leaving the title alone, if the user
+ * renamed the conversation.
+ */
 export async function updateConversationTitle(
   conversationId: string,
   title: string
-): Promise<void> {
+): Promise<boolean> {
   const db = getDb();
-  db.query(
-    "UPDATE conversations SET title = ?, updated_at = datetime('now') WHERE id = ?"
+  const result = db.query(
+    "UPDATE conversations SET title = ?, updated_at = datetime('now') WHERE id = ? AND title_locked = 0"
   ).run(title, conversationId);
+  return result.changes > 0;
+}
+
+/**
+ * Apply settings and metadata changes. Fields left undefined are unchanged, and
+ * updated_at isn't touched, so organizing conversations doesn't reorder them.
+ */
+export async function updateConversation(
+  conversationId: string,
+  changes: ConversationUpdate
+): Promise<Conversation | null> {
+  const db = getDb();
+  const assignments: string[] = [];
+  const params: (string | number | null)[] = [];
+
+  if (changes.extendedThinking !== undefined) {
+    assignments.push('extended_thinking = ?');
+    params.push(toNullableFlag(changes.extendedThinking));
+  }
+
+  if (changes.model !== undefined) {
+    assignments.push('model = ?');
+    params.push(changes.model);
+  }
+
+  if (changes.permissionMode !== undefined) {
+    assignments.push('permission_mode = ?');
+    params.push(changes.permissionMode);
+  }
+
+  if (changes.mcpServers !== undefined) {
+    assignments.push('mcp_servers = ?');
+    params.push(toJsonList(changes.mcpServers));
+  }
+
+  // A manual rename locks the title; clearing it lets titles be generated again
+  if (changes.title !== undefined) {
+    if (changes.title === null) {
+      assignments.push('title_locked = 0');
+    } else {
+      assignments.push('title = ?', 'title_locked = 1');
+      params.push(changes.title);
+    }
+  }
+
+  if (changes.pinned !== undefined) {
+    assignments.push('pinned = ?');
+    params.push(changes.pinned ? 1 : 0);
+  }
+
+  if (changes.archived !== undefined) {
+    assignments.push('archived = ?');
+    params.push(changes.archived ? 1 : 0);
+  }
+
+  if (changes.color !== undefined) {
+    assignments.push('color = ?');
+    params.push(changes.color);
+  }
+
+  if (assignments.length > 0) {
+    db.query(
+      `UPDATE conversations SET ${assignments.join(', ')} WHERE id = ?`
+    ).run(...params, conversationId);
+  }
+
+  return getConversation(conversationId);
 }
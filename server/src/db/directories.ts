@@ -0,0 +1,97 @@
+import { getDb } from './schema';
+
+export interface UserDirectory {
+  id: number;
+  userId: string;
+  path: string;
+  label: string | null;
+  accessCount: number;
+  lastUsed: string;
+  createdAt: string;
+}
+
+interface UserDirectoryRow {
+  id: number;
+  user_id: string;
+  path: string;
+  label: string | null;
+  access_count: number;
+  last_used: string;
+  created_at: string;
+}
+
+const DEFAULT_RECENT_LIMIT = 20;
+
+function rowToDirectory(row: UserDirectoryRow): UserDirectory {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    path: row.path,
+    label: row.label,
+    accessCount: row.access_count,
+    lastUsed: row.last_used,
+    createdAt: row.created_at,
+  };
+}
+
+/**
+ * Record that a user started a conversation in a directory
+ */
+export async function recordDirectoryUse(userId: string, path: string): Promise<void> {
+  const db = getDb();
+  db.query(
+    `INSERT INTO user_directories (user_id, path) VALUES (?, ?)
+     ON CONFLICT(user_id, path) DO UPDATE SET
+       access_count = access_count + 1,
+       last_used = datetime('now')`
+  ).run(userId, path);
+}
+
+/**
+ * A user's directories, most recently used first
+ */
+export async function getRecentDirectories(
+  userId: string,
+  limit = DEFAULT_RECENT_LIMIT
+): Promise<UserDirectory[]> {
+  const db = getDb();
+  const rows = db.query<UserDirectoryRow, [string, number]>(
+    'SELECT * FROM user_directories WHERE user_id = ? ORDER BY last_used DESC LIMIT ?'
+  ).all(userId, limit);
+
+  return rows.map(rowToDirectory);
+}
+
+/**
+ * Set (or clear with null) the display label of a directory.
+ * Returns null if the directory isn't in the user's history.
+ */
+export async function setDirectoryLabel(
+  userId: string,
+  path: string,
+  label: string | null
+): Promise<UserDirectory | null> {
+  const db = getDb();
+  db.query(
+    'UPDATE user_directories SET label = ? WHERE user_id = ? AND path = ?'
+  ).run(label, userId, path);
+
+  const row = db.query<UserDirectoryRow, [string, string]>(
+    'SELECT * FROM user_directories WHERE user_id = ? AND path = ?'
+  ).get(userId, path);
+
+  return row ? rowToDirectory(row) : null;
+}
+
+/**
+ * Remove a directory from a user's history. Conversations in it are kept.
+ * Returns false if it wasn't there.
+ */
+export async function deleteDirectory(userId: string, path: string): Promise<boolean> {
+  const db = getDb();
+  const result = db.query(
+    'DELETE FROM user_directories WHERE user_id = ? AND path = ?'
+  ).run(userId, path);
+
+  return result.changes > 0;
+}
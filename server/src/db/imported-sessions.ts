@@ -0,0 +1,41 @@
+import { getDb } from './schema';
+
+export async function recordImportedSession(data: {
+  conversationId: string;
+  sessionId: string;
+  sessionPath: string;
+  messageCount: number;
+  originalCreatedAt: string | null;
+}): Promise<void> {
+  const db = getDb();
+  db.query(
+    `INSERT INTO imported_sessions
+      (id, conversation_id, session_id, session_path, message_count, original_created_at)
+     VALUES (?, ?, ?, ?, ?, ?)`
+  ).run(
+    crypto.randomUUID(),
+    data.conversationId,
+    data.sessionId,
+    data.sessionPath,
+    data.messageCount,
+    data.originalCreatedAt
+  );
+}
+
+/**
+ * CLI sessions a user already has a conversation for, mapped to that conversation:
+ * sessions imported before, and sessions Ovrlrd itself ran
+ */
+export async function getKnownSessions(userId: string): Promise<Map<string, string>> {
+  const db = getDb();
+  const rows = db.query<{ session_id: string; conversation_id: string }, [string, string]>(
+    `SELECT i.session_id, i.conversation_id FROM imported_sessions i
+     JOIN conversations c ON c.id = i.conversation_id
+     WHERE c.user_id = ?
+     UNION ALL
+     SELECT claude_session_id, id FROM conversations
+     WHERE user_id = ? AND claude_session_id IS NOT NULL`
+  ).all(userId, userId);
+
+  return new Map(rows.map((row) => [row.session_id, row.conversation_id]));
+}
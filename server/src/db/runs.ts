@@ -0,0 +1,117 @@
+import { getDb } from './schema';
+
+/**
+ * Persisted run status. `interrupted` marks runs found unfinished after a restart.
+ */
+export type RunRecordStatus = 'running' | 'completed' | 'failed' | 'cancelled' | 'interrupted';
+
+export interface RunRecord {
+  id: string;
+  conversationId: string;
+  userId: string;
+  status: RunRecordStatus;
+  resumeSessionId: string | null;
+  claudeSessionId: string | null;
+  // Last CLI transcript entry the run wrote
+  lastEntryUuid: string | null;
+  error: string | null;
+  startedAt: string;
+  finishedAt: string | null;
+}
+
+interface RunRow {
+  id: string;
+  conversation_id: string;
+  user_id: string;
+  status: string;
+  resume_session_id: string | null;
+  claude_session_id: string | null;
+  last_entry_uuid: string | null;
+  error: string | null;
+  started_at: string;
+  finished_at: string | null;
+}
+
+function rowToRunRecord(row: RunRow): RunRecord {
+  return {
+    id: row.id,
+    conversationId: row.conversation_id,
+    userId: row.user_id,
+    status: row.status as RunRecordStatus,
+    resumeSessionId: row.resume_session_id,
+    claudeSessionId: row.claude_session_id,
+    lastEntryUuid: row.last_entry_uuid,
+    error: row.error,
+    startedAt: row.started_at,
+    finishedAt: row.finished_at,
+  };
+}
+
+export async function createRunRecord(data: {
+  id: string;
+  conversationId: string;
+  userId: string;
+  resumeSessionId: string | null;
+}): Promise<void> {
+  const db = getDb();
+  // Milliseconds, so recovery can tell this run's transcript entries from
+  // those of a run that finished earlier in the same second
+  db.query(
+    "INSERT INTO runs (id, conversation_id, user_id, status, resume_session_id, started_at) VALUES (?, ?, ?, 'running', ?, strftime('%Y-%m-%d %H:%M:%f', 'now'))"
+  ).run(data.id, data.conversationId, data.userId, data.resumeSessionId);
+}
+
+/**
+ * Record the session the CLI reported for a run
+ */
+export async function updateRunSessionId(id: string, claudeSessionId: string): Promise<void> {
+  const db = getDb();
+  db.query(
+    'UPDATE runs SET claude_session_id = ? WHERE id = ?'
+  ).run(claudeSessionId, id);
+}
+
+/**
+ * Record the last CLI transcript entry a run wrote
+ */
+export async function updateRunLastEntry(id: string, lastEntryUuid: string): Promise<void> {
+  const db = getDb();
+  db.query(
+    'UPDATE runs SET last_entry_uuid = ? WHERE id = ?'
+  ).run(lastEntryUuid, id);
+}
+
+/**
+ * Mark a run as finished with its final status
+ */
+export async function finishRunRecord(
+  id: string,
+  status: Exclude<RunRecordStatus, 'running'>,
+  error: string | null = null
+): Promise<void> {
+  const db = getDb();
+  db.query(
+    "UPDATE runs SET status = ?, error = ?, finished_at = datetime('now') WHERE id = ?"
+  ).run(status, error, id);
+}
+
+export async function getRunRecord(id: string): Promise<RunRecord | null> {
+  const db = getDb();
+  const row = db.query<RunRow, [string]>(
+    'SELECT * FROM runs WHERE id = ?'
+  ).get(id);
+
+  return row ? rowToRunRecord(row) : null;
+}
+
+/**
+ * Runs still marked as running, i.e. left behind by a crash when no run is active
+ */
+export async function getUnfinishedRuns(): Promise<RunRecord[]> {
+  const db = getDb();
+  const rows = db.query<RunRow, []>(
+    "SELECT * FROM runs WHERE status = 'running' ORDER BY started_at ASC"
+  ).all();
+
+  return rows.map(rowToRunRecord);
+}
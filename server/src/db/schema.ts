@@ -92,6 +92,460 @@ const migrations: Migration[] = [
       `);
     },
   },
+  {
+    version: 4,
+    name: 'add_message_parts_table',
+    up: (db) => {
+      db.exec(`
+        -- Typed parts of a message: text, tool_use, tool_result, command_output
+        CREATE TABLE IF NOT EXISTS message_parts (
+          id TEXT PRIMARY KEY,
+          message_id TEXT NOT NULL REFERENCES messages(id) ON DELETE CASCADE,
+          position INTEGER NOT NULL,
+          type TEXT NOT NULL,
+          content TEXT,
+          tool_use_id TEXT,
+          tool_name TEXT,
+          input TEXT,
+          is_error INTEGER NOT NULL DEFAULT 0,
+          created_at TEXT DEFAULT (datetime('now'))
+        );
+
+        -- Parts are always loaded per message, in order
+        CREATE INDEX IF NOT EXISTS idx_message_parts_message
+          ON message_parts(message_id, position);
+
+        -- Correlate tool_use and tool_result parts
+        CREATE INDEX IF NOT EXISTS idx_message_parts_tool_use_id
+          ON message_parts(tool_use_id);
+      `);
+    },
+  },
+  {
+    version: 5,
+    name: 'add_conversation_extended_thinking',
+    up: (db) => {
+      db.exec(`
+        -- NULL means use the CLI's default
+        ALTER TABLE conversations ADD COLUMN extended_thinking INTEGER;
+      `);
+    },
+  },
+  {
+    version: 6,
+    name: 'add_run_usage_table',
+    up: (db) => {
+      db.exec(`
+        -- No FK on conversation_id: spend must outlive deleted conversations
+        CREATE TABLE IF NOT EXISTS run_usage (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          run_id TEXT,
+          conversation_id TEXT NOT NULL,
+          user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+          input_tokens INTEGER NOT NULL DEFAULT 0,
+          output_tokens INTEGER NOT NULL DEFAULT 0,
+          cache_creation_input_tokens INTEGER NOT NULL DEFAULT 0,
+          cache_read_input_tokens INTEGER NOT NULL DEFAULT 0,
+          duration_ms INTEGER NOT NULL DEFAULT 0,
+          num_turns INTEGER NOT NULL DEFAULT 0,
+          total_cost_usd REAL NOT NULL DEFAULT 0,
+          created_at TEXT DEFAULT (datetime('now'))
+        );
+
+        -- Composite index for per-user usage reports by date
+        CREATE INDEX IF NOT EXISTS idx_run_usage_user_created
+          ON run_usage(user_id, created_at);
+
+        -- Index for per-conversation totals
+        CREATE INDEX IF NOT EXISTS idx_run_usage_conversation
+          ON run_usage(conversation_id);
+      `);
+    },
+  },
+  {
+    version: 7,
+    name: 'add_user_budgets_table',
+    up: (db) => {
+      db.exec(`
+        -- Per-user overrides; NULL falls back to the server-wide default
+        CREATE TABLE IF NOT EXISTS user_budgets (
+          user_id TEXT PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+          daily_cost_usd REAL,
+          monthly_cost_usd REAL,
+          daily_tokens INTEGER,
+          monthly_tokens INTEGER,
+          updated_at TEXT DEFAULT (datetime('now'))
+        );
+      `);
+    },
+  },
+  {
+    version: 8,
+    name: 'add_runs_table',
+    up: (db) => {
+      db.exec(`
+        -- One row per Claude process, written at spawn time so a crash leaves a trace
+        CREATE TABLE IF NOT EXISTS runs (
+          id TEXT PRIMARY KEY,
+          conversation_id TEXT NOT NULL REFERENCES conversations(id) ON DELETE CASCADE,
+          user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+          status TEXT NOT NULL,
+          resume_session_id TEXT,
+          claude_session_id TEXT,
+          error TEXT,
+          started_at TEXT DEFAULT (datetime('now')),
+          finished_at TEXT
+        );
+
+        -- Index for the startup recovery pass
+        CREATE INDEX IF NOT EXISTS idx_runs_status ON runs(status);
+
+        CREATE INDEX IF NOT EXISTS idx_runs_conversation ON runs(conversation_id, started_at);
+
+        -- Messages written by a run (NULL for user messages and older rows)
+        ALTER TABLE messages ADD COLUMN run_id TEXT;
+        CREATE INDEX IF NOT EXISTS idx_messages_run ON messages(run_id);
+      `);
+    },
+  },
+  {
+    version: 9,
+    name: 'add_conversation_model',
+    up: (db) => {
+      db.exec(`
+        -- NULL = CLI default model
+        ALTER TABLE conversations ADD COLUMN model TEXT;
+      `);
+    },
+  },
+  {
+    version: 10,
+    name: 'add_conversation_permission_mode',
+    up: (db) => {
+      db.exec(`
+        -- NULL = CLI default permission mode
+        ALTER TABLE conversations ADD COLUMN permission_mode TEXT;
+      `);
+    },
+  },
+  {
+    version: 11,
+    name: 'add_tool_rules_table',
+    up: (db) => {
+      db.exec(`
+        -- Permanent "always allow" rules merged into --allowedTools.
+        -- directory is set for scope 'directory', conversation_id for scope 'conversation'.
+        CREATE TABLE IF NOT EXISTS tool_rules (
+          id TEXT PRIMARY KEY,
+          user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+          tool TEXT NOT NULL,
+          scope TEXT NOT NULL,
+          directory TEXT,
+          conversation_id TEXT REFERENCES conversations(id) ON DELETE CASCADE,
+          created_at TEXT DEFAULT (datetime('now'))
+        );
+
+        -- One rule per tool and scope target, so "allow always" twice is a no-op
+        CREATE UNIQUE INDEX IF NOT EXISTS idx_tool_rules_unique
+          ON tool_rules(user_id, tool, scope, IFNULL(directory, ''), IFNULL(conversation_id, ''));
+      `);
+    },
+  },
+  {
+    version: 12,
+    name: 'add_conversation_work_dir',
+    up: (db) => {
+      db.exec(`
+        -- NULL = CLAUDE_WORK_DIR
+        ALTER TABLE conversations ADD COLUMN work_dir TEXT;
+        CREATE INDEX IF NOT EXISTS idx_conversations_work_dir ON conversations(user_id, work_dir);
+      `);
+    },
+  },
+  {
+    version: 13,
+    name: 'add_user_directories_table',
+    up: (db) => {
+      db.exec(`
+        -- Working directories a user has started conversations in, for the directory picker
+        CREATE TABLE IF NOT EXISTS user_directories (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+          path TEXT NOT NULL,
+          label TEXT,
+          access_count INTEGER DEFAULT 1,
+          last_used TEXT DEFAULT (datetime('now')),
+          created_at TEXT DEFAULT (datetime('now'))
+        );
+
+        CREATE UNIQUE INDEX IF NOT EXISTS idx_user_directories_path ON user_directories(user_id, path);
+        CREATE INDEX IF NOT EXISTS idx_user_directories_last_used ON user_directories(user_id, last_used DESC);
+      `);
+    },
+  },
+  {
+    version: 14,
+    name: 'add_imported_sessions_table',
+    up: (db) => {
+      db.exec(`
+        -- Local CLI sessions imported as conversations
+        CREATE TABLE IF NOT EXISTS imported_sessions (
+          id TEXT PRIMARY KEY,
+          conversation_id TEXT NOT NULL REFERENCES conversations(id) ON DELETE CASCADE,
+          session_id TEXT NOT NULL,
+          session_path TEXT NOT NULL,
+          message_count INTEGER,
+          original_created_at TEXT,
+          imported_at TEXT DEFAULT (datetime('now'))
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_imported_sessions_conversation ON imported_sessions(conversation_id);
+
+        -- Index for duplicate-import detection
+        CREATE INDEX IF NOT EXISTS idx_imported_sessions_session ON imported_sessions(session_id);
+      `);
+    },
+  },
+  {
+    version: 15,
+    name: 'add_conversation_forks',
+    up: (db) => {
+      db.exec(`
+        -- Lineage of forked conversations. Forks outlive their parent.
+        ALTER TABLE conversations ADD COLUMN parent_conversation_id TEXT REFERENCES conversations(id) ON DELETE SET NULL;
+        ALTER TABLE conversations ADD COLUMN fork_message_id TEXT;
+
+        -- 1 until the fork's first run branches off the parent's CLI session
+        ALTER TABLE conversations ADD COLUMN fork_session_pending INTEGER DEFAULT 0;
+
+        CREATE INDEX IF NOT EXISTS idx_conversations_parent ON conversations(parent_conversation_id);
+      `);
+    },
+  },
+  {
+    version: 16,
+    name: 'add_turn_alternates',
+    up: (db) => {
+      db.exec(`
+        -- Old versions of an edited or regenerated turn point to the user message that replaced them
+        ALTER TABLE messages ADD COLUMN superseded_by TEXT;
+        CREATE INDEX IF NOT EXISTS idx_messages_superseded_by ON messages(superseded_by);
+
+        -- Last CLI transcript entry of a run, so the session can be rewound to it
+        ALTER TABLE runs ADD COLUMN last_entry_uuid TEXT;
+
+        -- Transcript entry the next run resumes claude_session_id at, dropping what follows
+        ALTER TABLE conversations ADD COLUMN resume_session_at TEXT;
+      `);
+    },
+  },
+  {
+    version: 17,
+    name: 'add_search_index',
+    up: (db) => {
+      db.exec(`
+        -- Full-text indexes over message content and conversation titles.
+        -- External content: rows live in the source tables, kept in sync by triggers.
+        CREATE VIRTUAL TABLE IF NOT EXISTS messages_fts USING fts5(
+          content,
+          content = 'messages',
+          content_rowid = 'rowid',
+          tokenize = 'porter unicode61'
+        );
+
+        CREATE VIRTUAL TABLE IF NOT EXISTS conversations_fts USING fts5(
+          title,
+          content = 'conversations',
+          content_rowid = 'rowid',
+          tokenize = 'porter unicode61'
+        );
+
+        CREATE TRIGGER IF NOT EXISTS messages_fts_insert AFTER INSERT ON messages BEGIN
+          INSERT INTO messages_fts (rowid, content) VALUES (new.rowid, new.content);
+        END;
+
+        CREATE TRIGGER IF NOT EXISTS messages_fts_delete AFTER DELETE ON messages BEGIN
+          INSERT INTO messages_fts (messages_fts, rowid, content) VALUES ('delete', old.rowid, old.content);
+        END;
+
+        CREATE TRIGGER IF NOT EXISTS messages_fts_update AFTER UPDATE OF content ON messages BEGIN
+          INSERT INTO messages_fts (messages_fts, rowid, content) VALUES ('delete', old.rowid, old.content);
+          INSERT INTO messages_fts (rowid, content) VALUES (new.rowid, new.content);
+        END;
+
+        CREATE TRIGGER IF NOT EXISTS conversations_fts_insert AFTER INSERT ON conversations BEGIN
+          INSERT INTO conversations_fts (rowid, title) VALUES (new.rowid, new.title);
+        END;
+
+        CREATE TRIGGER IF NOT EXISTS conversations_fts_delete AFTER DELETE ON conversations BEGIN
+          INSERT INTO conversations_fts (conversations_fts, rowid, title) VALUES ('delete', old.rowid, old.title);
+        END;
+
+        CREATE TRIGGER IF NOT EXISTS conversations_fts_update AFTER UPDATE OF title ON conversations BEGIN
+          INSERT INTO conversations_fts (conversations_fts, rowid, title) VALUES ('delete', old.rowid, old.title);
+          INSERT INTO conversations_fts (rowid, title) VALUES (new.rowid, new.title);
+        END;
+
+        -- Index existing rows
+        INSERT INTO messages_fts (messages_fts) VALUES ('rebuild');
+        INSERT INTO conversations_fts (conversations_fts) VALUES ('rebuild');
+      `);
+    },
+  },
+  {
+    version: 18,
+    name: 'add_conversation_metadata',
+    up: (db) => {
+      db.exec(`
+        ALTER TABLE conversations ADD COLUMN pinned INTEGER NOT NULL DEFAULT 0;
+        ALTER TABLE conversations ADD COLUMN archived INTEGER NOT NULL DEFAULT 0;
+        ALTER TABLE conversations ADD COLUMN color TEXT;
+
+        -- 1 once the user renamed the conversation, so titles are no longer generated
+        ALTER TABLE conversations ADD COLUMN title_locked INTEGER NOT NULL DEFAULT 0;
+
+        -- Conversation list: pinned first, then most recently updated
+        CREATE INDEX IF NOT EXISTS idx_conversations_user_list
+          ON conversations(user_id, archived, pinned DESC, updated_at DESC);
+      `);
+    },
+  },
+  {
+    version: 19,
+    name: 'add_tags',
+    up: (db) => {
+      db.exec(`
+        -- User-defined tags; names are unique per user, ignoring case
+        CREATE TABLE IF NOT EXISTS tags (
+          id TEXT PRIMARY KEY,
+          user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+          name TEXT NOT NULL COLLATE NOCASE,
+          color TEXT,
+          created_at TEXT DEFAULT (datetime('now')),
+          UNIQUE (user_id, name)
+        );
+
+        CREATE TABLE IF NOT EXISTS conversation_tags (
+          conversation_id TEXT NOT NULL REFERENCES conversations(id) ON DELETE CASCADE,
+          tag_id TEXT NOT NULL REFERENCES tags(id) ON DELETE CASCADE,
+          created_at TEXT DEFAULT (datetime('now')),
+          PRIMARY KEY (conversation_id, tag_id)
+        );
+
+        -- Index for the ?tag= filter of the conversation list
+        CREATE INDEX IF NOT EXISTS idx_conversation_tags_tag
+          ON conversation_tags(tag_id);
+      `);
+    },
+  },
+  {
+    version: 20,
+    name: 'add_message_attachments',
+    up: (db) => {
+      db.exec(`
+        -- Files uploaded with a user message, stored under ATTACHMENTS_DIR/<conversation_id>/
+        CREATE TABLE IF NOT EXISTS message_attachments (
+          id TEXT PRIMARY KEY,
+          message_id TEXT NOT NULL REFERENCES messages(id) ON DELETE CASCADE,
+          conversation_id TEXT NOT NULL REFERENCES conversations(id) ON DELETE CASCADE,
+          filename TEXT NOT NULL,
+          mime_type TEXT NOT NULL,
+          size INTEGER NOT NULL,
+          created_at TEXT DEFAULT (datetime('now'))
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_message_attachments_message
+          ON message_attachments(message_id);
+      `);
+    },
+  },
+  {
+    version: 21,
+    name: 'add_conversation_mcp_servers',
+    up: (db) => {
+      db.exec(`
+        -- JSON array of the MCP server names runs are limited to; NULL keeps the CLI's own config
+        ALTER TABLE conversations ADD COLUMN mcp_servers TEXT;
+      `);
+    },
+  },
+  {
+    version: 22,
+    name: 'add_search_rowids',
+    up: (db) => {
+      db.exec(`
+        -- The search indexes were keyed on the implicit rowid, which VACUUM may
+        -- renumber in tables without an INTEGER PRIMARY KEY. They are now keyed
+        -- on an integer column of their own, assigned on insert and never changed.
+        DROP TRIGGER IF EXISTS messages_fts_insert;
+        DROP TRIGGER IF EXISTS messages_fts_delete;
+        DROP TRIGGER IF EXISTS messages_fts_update;
+        DROP TRIGGER IF EXISTS conversations_fts_insert;
+        DROP TRIGGER IF EXISTS conversations_fts_delete;
+        DROP TRIGGER IF EXISTS conversations_fts_update;
+        DROP TABLE IF EXISTS messages_fts;
+        DROP TABLE IF EXISTS conversations_fts;
+
+        ALTER TABLE messages ADD COLUMN search_rowid INTEGER;
+        UPDATE messages SET search_rowid = rowid;
+        CREATE UNIQUE INDEX IF NOT EXISTS idx_messages_search_rowid ON messages(search_rowid);
+
+        ALTER TABLE conversations ADD COLUMN search_rowid INTEGER;
+        UPDATE conversations SET search_rowid = rowid;
+        CREATE UNIQUE INDEX IF NOT EXISTS idx_conversations_search_rowid ON conversations(search_rowid);
+
+        CREATE VIRTUAL TABLE IF NOT EXISTS messages_fts USING fts5(
+          content,
+          content = 'messages',
+          content_rowid = 'search_rowid',
+          tokenize = 'porter unicode61'
+        );
+
+        CREATE VIRTUAL TABLE IF NOT EXISTS conversations_fts USING fts5(
+          title,
+          content = 'conversations',
+          content_rowid = 'search_rowid',
+          tokenize = 'porter unicode61'
+        );
+
+        CREATE TRIGGER IF NOT EXISTS messages_fts_insert AFTER INSERT ON messages BEGIN
+          UPDATE messages SET search_rowid = (SELECT COALESCE(MAX(search_rowid), 0) + 1 FROM messages)
+            WHERE rowid = new.rowid;
+          INSERT INTO messages_fts (rowid, content)
+            SELECT search_rowid, content FROM messages WHERE rowid = new.rowid;
+        END;
+
+        CREATE TRIGGER IF NOT EXISTS messages_fts_delete AFTER DELETE ON messages BEGIN
+          INSERT INTO messages_fts (messages_fts, rowid, content) VALUES ('delete', old.search_rowid, old.content);
+        END;
+
+        CREATE TRIGGER IF NOT EXISTS messages_fts_update AFTER UPDATE OF content ON messages BEGIN
+          INSERT INTO messages_fts (messages_fts, rowid, content) VALUES ('delete', old.search_rowid, old.content);
+          INSERT INTO messages_fts (rowid, content) VALUES (new.search_rowid, new.content);
+        END;
+
+        CREATE TRIGGER IF NOT EXISTS conversations_fts_insert AFTER INSERT ON conversations BEGIN
+          UPDATE conversations SET search_rowid = (SELECT COALESCE(MAX(search_rowid), 0) + 1 FROM conversations)
+            WHERE rowid = new.rowid;
+          INSERT INTO conversations_fts (rowid, title)
+            SELECT search_rowid, title FROM conversations WHERE rowid = new.rowid;
+        END;
+
+        CREATE TRIGGER IF NOT EXISTS conversations_fts_delete AFTER DELETE ON conversations BEGIN
+          INSERT INTO conversations_fts (conversations_fts, rowid, title) VALUES ('delete', old.search_rowid, old.title);
+        END;
+
+        CREATE TRIGGER IF NOT EXISTS conversations_fts_update AFTER UPDATE OF title ON conversations BEGIN
+          INSERT INTO conversations_fts (conversations_fts, rowid, title) VALUES ('delete', old.search_rowid, old.title);
+          INSERT INTO conversations_fts (rowid, title) VALUES (new.search_rowid, new.title);
+        END;
+
+        -- Index existing rows
+        INSERT INTO messages_fts (messages_fts) VALUES ('rebuild');
+        INSERT INTO conversations_fts (conversations_fts) VALUES ('rebuild');
+      `);
+    },
+  },
 ];
 
 /**
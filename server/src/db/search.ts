@@ -0,0 +1,181 @@
+import { getDb } from './schema';
+import type { Message, PaginatedResult } from './conversations';
+
+export type SearchHitType = 'message' | 'title';
+
+export interface SearchHit {
+  type: SearchHitType;
+  conversationId: string;
+  conversationTitle: string | null;
+  // Null for title hits
+  messageId: string | null;
+  role: Message['role'] | null;
+  // Matched terms wrapped in <mark></mark>
+  snippet: string;
+  // Message time, or the conversation's last update for title hits
+  createdAt: string;
+  // bm25 score: lower is a better match
+  rank: number;
+}
+
+export interface SearchOptions {
+  query: string;
+  role?: Message['role'];
+  from?: string; // YYYY-MM-DD, inclusive
+  to?: string;   // YYYY-MM-DD, inclusive
+  limit?: number;
+  cursor?: string;
+}
+
+interface SearchHitRow {
+  type: SearchHitType;
+  sort_key: string;
+  rank: number;
+  conversation_id: string;
+  conversation_title: string | null;
+  message_id: string | null;
+  role: string | null;
+  snippet: string;
+  created_at: string;
+}
+
+interface SearchCursor {
+  rank: number;
+  key: string;
+}
+
+const DEFAULT_PAGE_SIZE = 20;
+
+// Words of context around the first match
+const SNIPPET_TOKENS = 16;
+
+function rowToSearchHit(row: SearchHitRow): SearchHit {
+  return {
+    type: row.type,
+    conversationId: row.conversation_id,
+    conversationTitle: row.conversation_title,
+    messageId: row.message_id,
+    role: row.role as Message['role'] | null,
+    snippet: row.snippet,
+    createdAt: row.created_at,
+    rank: row.rank,
+  };
+}
+
+/**
+ * Results are ordered by rank, so the cursor is the rank and tie-breaking key
+ * of the last hit, encoded as an opaque string
+ */
+function encodeSearchCursor(cursor: SearchCursor): string {
+  return Buffer.from(JSON.stringify([cursor.rank, cursor.key])).toString('base64url');
+}
+
+export function decodeSearchCursor(value: string): SearchCursor | null {
+  try {
+    const decoded: unknown = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+    if (Array.isArray(decoded) && typeof decoded[0] === 'number' && typeof decoded[1] === 'string') {
+      return { rank: decoded[0], key: decoded[1] };
+    }
+  } catch {
+    // Fall through
+  }
+  return null;
+}
+
+/**
+ * Turn free text into an FTS5 query: every word must match, as a literal
+ * (so punctuation like `nginx.conf` can't be a syntax error), and the last
+ * word also matches as a prefix for search-as-you-type
+ */
+function toMatchQuery(query: string): string {
+  const terms = query.split(/\s+/).filter(Boolean).map((term) => `"${term.replace(/"/g, '""')}"`);
+  if (terms.length > 0) {
+    terms[terms.length - 1] += '*';
+  }
+  return terms.join(' ');
+}
+
+/**
+ * Full-text search over a user's messages and conversation titles, best
+ * matches first. Old versions of edited turns are left out, and so are
+ * title hits when filtering by role.
+ */
+export async function searchConversations(
+  userId: string,
+  options: SearchOptions
+): Promise<PaginatedResult<SearchHit>> {
+  const db = getDb();
+  const limit = options.limit || DEFAULT_PAGE_SIZE;
+  const match = toMatchQuery(options.query);
+
+  const messageConditions = ['messages_fts MATCH ?', 'c.user_id = ?', 'm.superseded_by IS NULL'];
+  const messageParams: (string | number)[] = [match, userId];
+  const titleConditions = ['conversations_fts MATCH ?', 'c.user_id = ?'];
+  const titleParams: (string | number)[] = [match, userId];
+
+  if (options.role) {
+    messageConditions.push('m.role = ?');
+    messageParams.push(options.role);
+  }
+  if (options.from) {
+    messageConditions.push('m.created_at >= ?');
+    messageParams.push(options.from);
+    titleConditions.push('c.updated_at >= ?');
+    titleParams.push(options.from);
+  }
+  if (options.to) {
+    messageConditions.push("m.created_at < date(?, '+1 day')");
+    messageParams.push(options.to);
+    titleConditions.push("c.updated_at < date(?, '+1 day')");
+    titleParams.push(options.to);
+  }
+
+  const selects = [`
+    SELECT 'message' as type, 'm' || m.search_rowid as sort_key, bm25(messages_fts) as rank,
+      m.conversation_id, c.title as conversation_title, m.id as message_id, m.role,
+      snippet(messages_fts, 0, '<mark>', '</mark>', '…', ${SNIPPET_TOKENS}) as snippet,
+      m.created_at
+    FROM messages_fts
+    JOIN messages m ON m.search_rowid = messages_fts.rowid
+    JOIN conversations c ON c.id = m.conversation_id
+    WHERE ${messageConditions.join(' AND ')}
+  `];
+  const params = [...messageParams];
+
+  if (!options.role) {
+    selects.push(`
+      SELECT 'title' as type, 'c' || c.search_rowid as sort_key, bm25(conversations_fts) as rank,
+        c.id as conversation_id, c.title as conversation_title, NULL as message_id, NULL as role,
+        snippet(conversations_fts, 0, '<mark>', '</mark>', '…', ${SNIPPET_TOKENS}) as snippet,
+        c.updated_at as created_at
+      FROM conversations_fts
+      JOIN conversations c ON c.search_rowid = conversations_fts.rowid
+      WHERE ${titleConditions.join(' AND ')}
+    `);
+    params.push(...titleParams);
+  }
+
+  let cursorCondition = '';
+  const cursor = options.cursor ? decodeSearchCursor(options.cursor) : null;
+  if (cursor) {
+    cursorCondition = 'WHERE rank > ? OR (rank = ? AND sort_key > ?)';
+    params.push(cursor.rank, cursor.rank, cursor.key);
+  }
+
+  const query = `
+    SELECT * FROM (${selects.join(' UNION ALL ')})
+    ${cursorCondition}
+    ORDER BY rank, sort_key
+    LIMIT ?
+  `;
+  params.push(limit + 1);
+
+  const rows = db.query<SearchHitRow, (string | number)[]>(query).all(...params);
+
+  const hasMore = rows.length > limit;
+  const page = rows.slice(0, limit);
+  const lastRow = page[page.length - 1];
+  const nextCursor = hasMore && lastRow ? encodeSearchCursor({ rank: lastRow.rank, key: lastRow.sort_key }) : null;
+
+  return { items: page.map(rowToSearchHit), hasMore, nextCursor };
+}
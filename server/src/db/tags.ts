@@ -0,0 +1,185 @@
+import { getDb } from './schema';
+import type { ConversationColor, ConversationTag } from './conversations';
+
+export interface Tag {
+  id: string;
+  userId: string;
+  name: string;
+  color: ConversationColor | null;
+  conversationCount: number;
+  createdAt: string;
+}
+
+export interface TagInput {
+  name?: string;
+  color?: ConversationColor | null;
+}
+
+interface TagRow {
+  id: string;
+  user_id: string;
+  name: string;
+  color: string | null;
+  conversation_count: number;
+  created_at: string;
+}
+
+const TAG_SELECT = `
+  SELECT t.*, (SELECT COUNT(*) FROM conversation_tags ct WHERE ct.tag_id = t.id) as conversation_count
+  FROM tags t
+`;
+
+function rowToTag(row: TagRow): Tag {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    name: row.name,
+    color: row.color as ConversationColor | null,
+    conversationCount: row.conversation_count,
+    createdAt: row.created_at,
+  };
+}
+
+/**
+ * A user's tags in name order, with the number of conversations using each
+ */
+export async function getTags(userId: string): Promise<Tag[]> {
+  const db = getDb();
+  const rows = db.query<TagRow, [string]>(
+    `${TAG_SELECT} WHERE t.user_id = ? ORDER BY t.name`
+  ).all(userId);
+
+  return rows.map(rowToTag);
+}
+
+export async function getTag(id: string): Promise<Tag | null> {
+  const db = getDb();
+  const row = db.query<TagRow, [string]>(
+    `${TAG_SELECT} WHERE t.id = ?`
+  ).get(id);
+
+  return row ? rowToTag(row) : null;
+}
+
+/**
+ * Whether the user has another tag with this name (ignoring case)
+ */
+export async function isTagNameTaken(userId: string, name: string, exceptId?: string): Promise<boolean> {
+  const db = getDb();
+  const row = db.query<{ id: string }, [string, string, string]>(
+    'SELECT id FROM tags WHERE user_id = ? AND name = ? AND id != ?'
+  ).get(userId, name, exceptId ?? '');
+
+  return row !== null;
+}
+
+export async function createTag(userId: string, name: string, color: ConversationColor | null = null): Promise<Tag> {
+  const db = getDb();
+  const id = crypto.randomUUID();
+
+  db.query(
+    'INSERT INTO tags (id, user_id, name, color) VALUES (?, ?, ?, ?)'
+  ).run(id, userId, name, color);
+
+  const tag = await getTag(id);
+  if (!tag) throw new Error('Failed to create tag');
+  return tag;
+}
+
+/**
+ * Rename a tag or change its color. Fields left undefined are unchanged.
+ */
+export async function updateTag(id: string, input: TagInput): Promise<Tag | null> {
+  const db = getDb();
+  const assignments: string[] = [];
+  const params: (string | null)[] = [];
+
+  if (input.name !== undefined) {
+    assignments.push('name = ?');
+    params.push(input.name);
+  }
+
+  if (input.color !== undefined) {
+    assignments.push('color = ?');
+    params.push(input.color);
+  }
+
+  if (assignments.length > 0) {
+    db.query(
+      `UPDATE tags SET ${assignments.join(', ')} WHERE id = ?`
+    ).run(...params, id);
+  }
+
+  return getTag(id);
+}
+
+/**
+ * Delete a tag. Conversations using it are kept and lose the tag.
+ */
+export async function deleteTag(id: string): Promise<void> {
+  const db = getDb();
+  db.query('DELETE FROM tags WHERE id = ?').run(id);
+}
+
+/**
+ * Which of the given tag IDs belong to the user
+ */
+export async function getOwnedTagIds(userId: string, tagIds: string[]): Promise<string[]> {
+  if (tagIds.length === 0) return [];
+
+  const db = getDb();
+  const placeholders = tagIds.map(() => '?').join(', ');
+  const rows = db.query<{ id: string }, string[]>(
+    `SELECT id FROM tags WHERE user_id = ? AND id IN (${placeholders})`
+  ).all(userId, ...tagIds);
+
+  return rows.map((row) => row.id);
+}
+
+export async function getConversationTags(conversationId: string): Promise<ConversationTag[]> {
+  const db = getDb();
+  const rows = db.query<{ id: string; name: string; color: string | null }, [string]>(
+    `SELECT t.id, t.name, t.color
+     FROM conversation_tags ct
+     JOIN tags t ON t.id = ct.tag_id
+     WHERE ct.conversation_id = ?
+     ORDER BY t.name`
+  ).all(conversationId);
+
+  return rows.map((row) => ({ id: row.id, name: row.name, color: row.color as ConversationColor | null }));
+}
+
+/**
+ * Replace the tags of a conversation, in one transaction
+ */
+export async function setConversationTags(conversationId: string, tagIds: string[]): Promise<ConversationTag[]> {
+  const db = getDb();
+
+  db.exec('BEGIN TRANSACTION');
+  try {
+    db.query('DELETE FROM conversation_tags WHERE conversation_id = ?').run(conversationId);
+    const insert = db.query('INSERT OR IGNORE INTO conversation_tags (conversation_id, tag_id) VALUES (?, ?)');
+    for (const tagId of tagIds) {
+      insert.run(conversationId, tagId);
+    }
+    db.exec('COMMIT');
+  } catch (error) {
+    db.exec('ROLLBACK');
+    throw error;
+  }
+
+  return getConversationTags(conversationId);
+}
+
+/**
+ * Add tags to a conversation, keeping the ones it has
+ */
+export async function addConversationTags(conversationId: string, tagIds: string[]): Promise<ConversationTag[]> {
+  const db = getDb();
+  const insert = db.query('INSERT OR IGNORE INTO conversation_tags (conversation_id, tag_id) VALUES (?, ?)');
+  for (const tagId of tagIds) {
+    insert.run(conversationId, tagId);
+  }
+
+  return getConversationTags(conversationId);
+}
@@ -0,0 +1,135 @@
+import { getDb } from './schema';
+
+/**
+ * Where an "always allow" rule applies: every run of the user, runs in one
+ * working directory, or runs of one conversation
+ */
+export type ToolRuleScope = 'global' | 'directory' | 'conversation';
+
+export interface ToolRule {
+  id: string;
+  userId: string;
+  tool: string;
+  scope: ToolRuleScope;
+  directory: string | null;
+  conversationId: string | null;
+  createdAt: string;
+}
+
+export interface ToolRuleInput {
+  tool: string;
+  scope: ToolRuleScope;
+  directory?: string | null;
+  conversationId?: string | null;
+}
+
+interface ToolRuleRow {
+  id: string;
+  user_id: string;
+  tool: string;
+  scope: string;
+  directory: string | null;
+  conversation_id: string | null;
+  created_at: string;
+}
+
+function rowToToolRule(row: ToolRuleRow): ToolRule {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    tool: row.tool,
+    scope: row.scope as ToolRuleScope,
+    directory: row.directory,
+    conversationId: row.conversation_id,
+    createdAt: row.created_at,
+  };
+}
+
+/**
+ * Save a rule. Saving a rule that already exists returns the existing one.
+ */
+export async function createToolRule(userId: string, input: ToolRuleInput): Promise<ToolRule> {
+  const db = getDb();
+  const directory = input.scope === 'directory' ? input.directory ?? null : null;
+  const conversationId = input.scope === 'conversation' ? input.conversationId ?? null : null;
+
+  db.query(
+    'INSERT OR IGNORE INTO tool_rules (id, user_id, tool, scope, directory, conversation_id) VALUES (?, ?, ?, ?, ?, ?)'
+  ).run(crypto.randomUUID(), userId, input.tool, input.scope, directory, conversationId);
+
+  const row = db.query<ToolRuleRow, [string, string, string, string, string]>(
+    `SELECT * FROM tool_rules
+     WHERE user_id = ? AND tool = ? AND scope = ?
+       AND IFNULL(directory, '') = ? AND IFNULL(conversation_id, '') = ?`
+  ).get(userId, input.tool, input.scope, directory ?? '', conversationId ?? '');
+
+  if (!row) throw new Error('Failed to create tool rule');
+  return rowToToolRule(row);
+}
+
+/**
+ * Save several rules with the same scope, e.g. every tool of an "allow always" approval
+ */
+export async function createToolRules(
+  userId: string,
+  tools: string[],
+  scope: Omit<ToolRuleInput, 'tool'>
+): Promise<ToolRule[]> {
+  const rules: ToolRule[] = [];
+  for (const tool of tools) {
+    rules.push(await createToolRule(userId, { ...scope, tool }));
+  }
+  return rules;
+}
+
+export async function getToolRule(id: string): Promise<ToolRule | null> {
+  const db = getDb();
+  const row = db.query<ToolRuleRow, [string]>(
+    'SELECT * FROM tool_rules WHERE id = ?'
+  ).get(id);
+
+  return row ? rowToToolRule(row) : null;
+}
+
+/**
+ * All rules of a user, optionally only those of one scope
+ */
+export async function getToolRules(userId: string, scope?: ToolRuleScope): Promise<ToolRule[]> {
+  const db = getDb();
+  const rows = scope
+    ? db.query<ToolRuleRow, [string, string]>(
+      'SELECT * FROM tool_rules WHERE user_id = ? AND scope = ? ORDER BY created_at ASC'
+    ).all(userId, scope)
+    : db.query<ToolRuleRow, [string]>(
+      'SELECT * FROM tool_rules WHERE user_id = ? ORDER BY created_at ASC'
+    ).all(userId);
+
+  return rows.map(rowToToolRule);
+}
+
+/**
+ * Tools allowed for a run: the user's global rules plus the rules of its
+ * working directory and conversation
+ */
+export async function getApplicableTools(
+  userId: string,
+  conversationId: string,
+  directory: string
+): Promise<string[]> {
+  const db = getDb();
+  const rows = db.query<{ tool: string }, [string, string, string]>(
+    `SELECT DISTINCT tool FROM tool_rules
+     WHERE user_id = ?
+       AND (scope = 'global'
+         OR (scope = 'directory' AND directory = ?)
+         OR (scope = 'conversation' AND conversation_id = ?))
+     ORDER BY tool`
+  ).all(userId, directory, conversationId);
+
+  return rows.map((row) => row.tool);
+}
+
+export async function deleteToolRule(id: string): Promise<void> {
+  const db = getDb();
+  db.query('DELETE FROM tool_rules WHERE id = ?').run(id);
+}
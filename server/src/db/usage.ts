@@ -0,0 +1,182 @@
+import { getDb } from './schema';
+
+/**
+ * Token and cost figures reported by the CLI's `result` message for one run
+ */
+export interface RunUsage {
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreationInputTokens: number;
+  cacheReadInputTokens: number;
+  durationMs: number;
+  numTurns: number;
+  totalCostUsd: number;
+}
+
+export interface UsageTotals extends RunUsage {
+  runs: number;
+}
+
+export type UsageGroupBy = 'day' | 'conversation';
+
+export interface UsageGroup extends UsageTotals {
+  key: string;
+  title?: string | null;
+}
+
+interface UsageTotalsRow {
+  runs: number;
+  input_tokens: number | null;
+  output_tokens: number | null;
+  cache_creation_input_tokens: number | null;
+  cache_read_input_tokens: number | null;
+  duration_ms: number | null;
+  num_turns: number | null;
+  total_cost_usd: number | null;
+}
+
+interface UsageGroupRow extends UsageTotalsRow {
+  key: string;
+  title: string | null;
+}
+
+// Aggregate columns shared by all usage queries
+const TOTALS_COLUMNS = `
+  COUNT(*) as runs,
+  SUM(input_tokens) as input_tokens,
+  SUM(output_tokens) as output_tokens,
+  SUM(cache_creation_input_tokens) as cache_creation_input_tokens,
+  SUM(cache_read_input_tokens) as cache_read_input_tokens,
+  SUM(duration_ms) as duration_ms,
+  SUM(num_turns) as num_turns,
+  SUM(total_cost_usd) as total_cost_usd
+`;
+
+function rowToTotals(row: UsageTotalsRow | null): UsageTotals {
+  return {
+    runs: row?.runs ?? 0,
+    inputTokens: row?.input_tokens ?? 0,
+    outputTokens: row?.output_tokens ?? 0,
+    cacheCreationInputTokens: row?.cache_creation_input_tokens ?? 0,
+    cacheReadInputTokens: row?.cache_read_input_tokens ?? 0,
+    durationMs: row?.duration_ms ?? 0,
+    numTurns: row?.num_turns ?? 0,
+    totalCostUsd: row?.total_cost_usd ?? 0,
+  };
+}
+
+export async function recordRunUsage(data: {
+  runId: string | null;
+  conversationId: string;
+  userId: string;
+  usage: RunUsage;
+}): Promise<void> {
+  const db = getDb();
+  const { usage } = data;
+
+  db.query(`
+    INSERT INTO run_usage (
+      run_id, conversation_id, user_id,
+      input_tokens, output_tokens, cache_creation_input_tokens, cache_read_input_tokens,
+      duration_ms, num_turns, total_cost_usd
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(
+    data.runId,
+    data.conversationId,
+    data.userId,
+    usage.inputTokens,
+    usage.outputTokens,
+    usage.cacheCreationInputTokens,
+    usage.cacheReadInputTokens,
+    usage.durationMs,
+    usage.numTurns,
+    usage.totalCostUsd
+  );
+}
+
+export async function getConversationUsage(conversationId: string): Promise<UsageTotals> {
+  const db = getDb();
+  const row = db.query<UsageTotalsRow, [string]>(
+    `SELECT ${TOTALS_COLUMNS} FROM run_usage WHERE conversation_id = ?`
+  ).get(conversationId);
+
+  return rowToTotals(row);
+}
+
+/**
+ * Cost and tokens a user has spent since a point in time (YYYY-MM-DD or SQLite datetime, UTC).
+ * Cache reads are excluded from the token count: they are cheap and would dwarf everything else.
+ */
+export async function getUserSpendSince(
+  userId: string,
+  since: string
+): Promise<{ costUsd: number; tokens: number }> {
+  const db = getDb();
+  const row = db.query<{ cost_usd: number | null; tokens: number | null }, [string, string]>(`
+    SELECT
+      SUM(total_cost_usd) as cost_usd,
+      SUM(input_tokens + output_tokens + cache_creation_input_tokens) as tokens
+    FROM run_usage
+    WHERE user_id = ? AND created_at >= ?
+  `).get(userId, since);
+
+  return { costUsd: row?.cost_usd ?? 0, tokens: row?.tokens ?? 0 };
+}
+
+export interface UsageReportOptions {
+  from?: string; // YYYY-MM-DD, inclusive
+  to?: string;   // YYYY-MM-DD, inclusive
+  groupBy: UsageGroupBy;
+}
+
+export async function getUsageReport(
+  userId: string,
+  options: UsageReportOptions
+): Promise<{ totals: UsageTotals; groups: UsageGroup[] }> {
+  const db = getDb();
+
+  const conditions = ['u.user_id = ?'];
+  const params: string[] = [userId];
+
+  if (options.from) {
+    conditions.push('u.created_at >= ?');
+    params.push(options.from);
+  }
+  if (options.to) {
+    conditions.push("u.created_at < date(?, '+1 day')");
+    params.push(options.to);
+  }
+
+  const where = conditions.join(' AND ');
+
+  const totalsRow = db.query<UsageTotalsRow, string[]>(
+    `SELECT ${TOTALS_COLUMNS} FROM run_usage u WHERE ${where}`
+  ).get(...params);
+
+  const groupQuery = options.groupBy === 'day'
+    ? `
+      SELECT date(u.created_at) as key, NULL as title, ${TOTALS_COLUMNS}
+      FROM run_usage u
+      WHERE ${where}
+      GROUP BY date(u.created_at)
+      ORDER BY key DESC
+    `
+    : `
+      SELECT u.conversation_id as key, c.title as title, ${TOTALS_COLUMNS}
+      FROM run_usage u
+      LEFT JOIN conversations c ON c.id = u.conversation_id
+      WHERE ${where}
+      GROUP BY u.conversation_id
+      ORDER BY total_cost_usd DESC
+    `;
+
+  const groupRows = db.query<UsageGroupRow, string[]>(groupQuery).all(...params);
+
+  const groups = groupRows.map((row) => ({
+    key: row.key,
+    ...(options.groupBy === 'conversation' && { title: row.title }),
+    ...rowToTotals(row),
+  }));
+
+  return { totals: rowToTotals(totalsRow), groups };
+}
@@ -47,6 +47,15 @@ export async function getUserById(id: string): Promise<User | null> {
   return row ? rowToUser(row) : null;
 }
 
+export async function getAllUsers(): Promise<User[]> {
+  const db = getDb();
+  const rows = db.query<UserRow, []>(
+    'SELECT * FROM users ORDER BY created_at ASC'
+  ).all();
+
+  return rows.map(rowToUser);
+}
+
 export async function createUser(data: {
   appleUserId: string;
   email?: string;
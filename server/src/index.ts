@@ -1,26 +1,40 @@
 import { app } from "./app";
 import { config } from "./config";
-import { initDb } from "./db/schema";
+import { closeDb, initDb } from "./db/schema";
 import { getActiveSessionCount } from "./services/claude-stream";
+import { drainRuns } from "./services/run-manager";
+import { recoverInterruptedRuns } from "./services/run-recovery";
 import { logInfo } from "./services/logger";
 
 // Initialize database (runs migrations automatically)
 await initDb();
 
+// Mark runs left unfinished by a crash as interrupted
+await recoverInterruptedRuns();
+
 console.log(`Server starting on port ${config.port}`);
 
 // Graceful shutdown handler
+let shuttingDown = false;
+
 async function shutdown(signal: string) {
+	// A second signal while draining exits immediately
+	if (shuttingDown) {
+		logInfo("server", `Received ${signal} again, exiting now`);
+		process.exit(1);
+	}
+	shuttingDown = true;
+
 	logInfo("server", `Received ${signal}, shutting down gracefully...`);
 
 	const activeCount = getActiveSessionCount();
 	if (activeCount > 0) {
-		logInfo("server", `Cancelling ${activeCount} active Claude session(s)...`);
+		logInfo("server", `Waiting for ${activeCount} active Claude session(s)...`);
 	}
 
-	// Note: We don't have access to conversation IDs here, so we rely on
-	// process exit to clean up. The activeSessions map cleanup happens
-	// automatically when processes are killed.
+	// Let active runs finish, then cancel what's left with partial output saved
+	await drainRuns(config.shutdownDrainMs);
+	closeDb();
 
 	process.exit(0);
 }
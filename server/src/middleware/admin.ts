@@ -0,0 +1,19 @@
+import type { Context, Next } from 'hono';
+import { config } from '../config';
+import { logInfo } from '../services/logger';
+
+/**
+ * Admin middleware - only users listed in ADMIN_USER_IDS may pass.
+ *
+ * Must run after authMiddleware.
+ */
+export async function adminMiddleware(c: Context, next: Next) {
+  const userId = c.get('userId') as string;
+
+  if (!config.adminUserIds.includes(userId)) {
+    logInfo('admin', `Admin access denied for ${userId}`);
+    return c.json({ error: 'Admin access required' }, 403);
+  }
+
+  await next();
+}
@@ -14,6 +14,12 @@ export async function apiKeyMiddleware(c: Context, next: Next) {
     return next();
   }
 
+  // The CLI's permission prompt calls are authorized by their per-run token,
+  // so the key never has to be passed on the CLI's command line
+  if (c.req.path.startsWith('/permission-mcp/')) {
+    return next();
+  }
+
   const apiKey = c.req.header('X-API-Key');
 
   if (!config.apiKey) {
@@ -0,0 +1,28 @@
+import type { Context, Next } from 'hono';
+import { describeBudgetCheck, getBudgetStatus, getExceededBudget } from '../services/budget';
+import { logInfo } from '../services/logger';
+
+/**
+ * Budget middleware - rejects requests that would start a Claude run once
+ * the user has used up one of their daily or monthly budgets.
+ *
+ * Must run after authMiddleware.
+ */
+export async function budgetMiddleware(c: Context, next: Next) {
+  const userId = c.get('userId') as string;
+  const exceeded = getExceededBudget(await getBudgetStatus(userId));
+
+  if (exceeded) {
+    logInfo('budget', `Budget exceeded for ${userId}: ${exceeded.period} ${exceeded.metric}`);
+
+    const retryAfter = Math.ceil((new Date(exceeded.resetsAt).getTime() - Date.now()) / 1000);
+    c.header('Retry-After', Math.max(0, retryAfter).toString());
+
+    return c.json(
+      { error: `${describeBudgetCheck(exceeded)}. Budget exceeded.`, budget: exceeded },
+      402
+    );
+  }
+
+  await next();
+}
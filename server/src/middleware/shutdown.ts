@@ -0,0 +1,15 @@
+import type { Context, Next } from 'hono';
+import { isAcceptingRuns } from '../services/run-manager';
+
+/**
+ * Shutdown middleware - rejects requests that would start a Claude run
+ * while the server is draining active runs before exiting.
+ */
+export async function shutdownMiddleware(c: Context, next: Next) {
+  if (!isAcceptingRuns()) {
+    c.header('Retry-After', '30');
+    return c.json({ error: 'Server is shutting down. Please retry shortly.' }, 503);
+  }
+
+  await next();
+}
@@ -0,0 +1,62 @@
+import { Hono } from 'hono';
+import type { AuthContext } from '../middleware/auth';
+import { getAllUsers, getUserById } from '../db/users';
+import { setUserBudgetOverrides } from '../db/budgets';
+import { getBudgetStatus } from '../services/budget';
+import { logAuditEvent, AuditActions } from '../services/audit';
+import { logInfo } from '../services/logger';
+import { getClientIp, getUserAgent } from '../utils/request';
+import { budgetUpdateSchema, parseBody } from '../validation/schemas';
+
+const admin = new Hono<AuthContext>();
+
+// GET /admin/budgets - Budgets and current spend of every user
+admin.get('/budgets', async (c) => {
+  const users = await getAllUsers();
+
+  const budgets = await Promise.all(
+    users.map(async (user) => ({
+      userId: user.id,
+      email: user.email,
+      ...(await getBudgetStatus(user.id)),
+    }))
+  );
+
+  return c.json({ users: budgets });
+});
+
+// GET /admin/budgets/:userId - Budget and current spend of one user
+admin.get('/budgets/:userId', async (c) => {
+  const user = await getUserById(c.req.param('userId'));
+  if (!user) {
+    return c.json({ error: 'User not found' }, 404);
+  }
+
+  return c.json({ userId: user.id, email: user.email, ...(await getBudgetStatus(user.id)) });
+});
+
+// PATCH /admin/budgets/:userId - Adjust a user's budget overrides
+admin.patch('/budgets/:userId', async (c) => {
+  const user = await getUserById(c.req.param('userId'));
+  if (!user) {
+    return c.json({ error: 'User not found' }, 404);
+  }
+
+  const overrides = await parseBody(c.req.raw, budgetUpdateSchema);
+  await setUserBudgetOverrides(user.id, overrides);
+  logInfo('admin', `Updated budget for ${user.id}`);
+
+  logAuditEvent({
+    userId: c.get('userId'),
+    action: AuditActions.ADMIN_BUDGET_UPDATE,
+    resource: 'user',
+    resourceId: user.id,
+    metadata: overrides,
+    ip: getClientIp(c),
+    userAgent: getUserAgent(c),
+  });
+
+  return c.json({ userId: user.id, email: user.email, ...(await getBudgetStatus(user.id)) });
+});
+
+export { admin as adminRoutes };
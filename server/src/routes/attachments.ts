@@ -0,0 +1,39 @@
+import { Hono } from 'hono';
+import type { AuthContext } from '../middleware/auth';
+import { getAttachment } from '../db/attachments';
+import { getAttachmentPath } from '../services/attachments';
+import { logError } from '../services/logger';
+import { authorizeConversation } from '../utils/authorization';
+
+const attachments = new Hono<AuthContext>();
+
+// GET /attachments/:id - Download an attachment of one of the user's conversations
+attachments.get('/:id', async (c) => {
+  const attachment = await getAttachment(c.req.param('id'));
+  if (!attachment) {
+    return c.json({ error: 'Attachment not found' }, 404);
+  }
+
+  const authResult = await authorizeConversation(c, attachment.conversationId);
+  if (!authResult.authorized) {
+    return c.json({ error: 'Attachment not found' }, 404);
+  }
+
+  const file = Bun.file(getAttachmentPath(attachment));
+  if (!(await file.exists())) {
+    logError('attachments', `File missing for attachment ${attachment.id}`);
+    return c.json({ error: 'Attachment not found' }, 404);
+  }
+
+  // ASCII fallback for old clients, the exact name for the rest
+  const fallbackName = attachment.filename.replace(/[^\x20-\x7e]|["\\]/g, '_');
+  c.header('Content-Type', attachment.mimeType);
+  c.header('Content-Length', String(file.size));
+  c.header(
+    'Content-Disposition',
+    `attachment; filename="${fallbackName}"; filename*=UTF-8''${encodeURIComponent(attachment.filename)}`
+  );
+  return c.body(file.stream());
+});
+
+export { attachments as attachmentRoutes };
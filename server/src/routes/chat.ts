@@ -1,29 +1,74 @@
-import { Hono } from 'hono';
-import { streamSSE } from 'hono/streaming';
+import { Hono, type Context } from 'hono';
+import { streamSSE, type SSEStreamingApi } from 'hono/streaming';
 import type { AuthContext } from '../middleware/auth';
 import {
   createConversation,
   getConversations,
   createMessage,
+  getAllMessages,
+  getAlternates,
   getMessages,
   updateClaudeSessionId,
+  updateConversation,
   deleteConversation,
-  updateConversationTitle,
+  type PermissionMode,
 } from '../db/conversations';
+import { recordRunUsage, getConversationUsage } from '../db/usage';
+import { createToolRules, getApplicableTools, type ToolRuleScope } from '../db/tool-rules';
+import { getOwnedTagIds, setConversationTags } from '../db/tags';
+import {
+  deleteDirectory,
+  getRecentDirectories,
+  recordDirectoryUse,
+  setDirectoryLabel,
+} from '../db/directories';
 import { runClaude } from '../services/claude';
-import { runClaudeStreaming, type PermissionDenial } from '../services/claude-stream';
-import { generateTitle } from '../services/title-generator';
+import { getAllowedRoots, getWorkDir } from '../services/claude-config';
+import { acquireProcessSlot } from '../services/process-pool';
+import { startRun, getActiveRun, getRun, cancelRun, type Run } from '../services/run-manager';
+import { importSession, listAvailableSessions } from '../services/session-importer';
+import { exportConversation } from '../services/conversation-export';
+import { forkFromMessage } from '../services/conversation-fork';
+import { replaceTurn } from '../services/session-rewind';
+import {
+  buildAttachmentPrompt,
+  deleteAttachmentDir,
+  getExistingAttachmentDir,
+  removeAttachmentFiles,
+  storeAttachmentFiles,
+} from '../services/attachments';
+import { findUnknownMcpServers, removeMcpConfigFile, writeMcpConfigFile } from '../services/mcp-config';
+import { getToolRuleForRequest, resolvePermissionRequest } from '../services/permission-prompt';
+import {
+  getLatestStreamId,
+  getStreamEvents,
+  subscribeToStream,
+} from '../services/stream-buffer';
 import { logError, logInfo } from '../services/logger';
+import { logAuditEvent, AuditActions } from '../services/audit';
 import { authorizeConversation } from '../utils/authorization';
+import { getClientIp, getUserAgent } from '../utils/request';
 import {
   chatMessageSchema,
   chatStreamSchema,
+  conversationStreamSchema,
+  chatUploadSchema,
+  conversationListSchema,
+  conversationTagsSchema,
+  conversationUpdateSchema,
+  directoryLabelSchema,
+  exportQuerySchema,
+  forkSchema,
+  messageEditSchema,
   permissionEventSchema,
+  permissionDecisionSchema,
+  planApprovalSchema,
+  sessionImportSchema,
   paginationSchema,
   parseBody,
+  parseFormData,
   parseQuery,
 } from '../validation/schemas';
-import { sendMessageReadyNotification } from '../services/notification';
 
 const chat = new Hono<AuthContext>();
 
@@ -35,38 +80,85 @@ interface Conversation {
   id: string;
   claudeSessionId: string | null;
   title: string | null;
+  extendedThinking: boolean | null;
+  model: string | null;
+  permissionMode: PermissionMode | null;
+  workDir: string | null;
+  mcpServers: string[] | null;
+  forkSessionPending: boolean;
+  resumeSessionAt: string | null;
 }
 
-interface StreamResult {
-  sessionId: string | null;
-  permissionDenials?: PermissionDenial[];
-  error?: string;
-}
-
-type SSEStream = { writeSSE: (data: { data: string }) => void };
+// Sent to Claude when a plan is approved without further instructions
+const PLAN_APPROVAL_MESSAGE = 'The plan is approved. Go ahead and implement it.';
 
 // =============================================================================
 // SSE Helpers
 // =============================================================================
 
-function writeSSEEvent(stream: SSEStream, type: string, data: Record<string, unknown> = {}) {
-  stream.writeSSE({ data: JSON.stringify({ type, ...data }) });
+/**
+ * Pipe a buffered stream to an SSE response.
+ * Replays events after `lastEventId`, then forwards live events until the
+ * stream finishes or the client disconnects.
+ */
+function pipeStreamToSSE(
+  sse: SSEStreamingApi,
+  streamId: string,
+  lastEventId: number
+): Promise<void> {
+  return new Promise((resolve) => {
+    // Chain writes so replayed and live events go out in order before the stream closes
+    let writes = Promise.resolve();
+    let unsubscribe: (() => void) | null = null;
+    const finish = () => {
+      unsubscribe?.();
+      writes.then(() => resolve());
+    };
+
+    unsubscribe = subscribeToStream(streamId, lastEventId, (event) => {
+      if (!event) {
+        finish();
+        return;
+      }
+      writes = writes.then(() => sse.writeSSE({
+        id: String(event.id),
+        data: JSON.stringify({ type: event.type, ...event.data }),
+      }));
+    });
+
+    if (!unsubscribe) {
+      resolve();
+      return;
+    }
+
+    sse.onAbort(finish);
+  });
 }
 
 /**
- * Deduplicate permission denials by tool_name + tool_input.
- * Claude sometimes retries the same tool call multiple times when denied,
- * resulting in duplicate entries with different tool_use_ids.
+ * Parse the Last-Event-ID header (or `lastEventId` query param for clients
+ * that can't set headers). Returns 0 when absent, replaying everything.
  */
-function deduplicatePermissionDenials(denials: PermissionDenial[]): PermissionDenial[] {
-  const seen = new Set<string>();
-  return denials.filter((denial) => {
-    const key = `${denial.tool_name}:${JSON.stringify(denial.tool_input)}`;
-    if (seen.has(key)) {
-      return false;
-    }
-    seen.add(key);
-    return true;
+function getLastEventId(header: string | undefined, query: string | undefined): number {
+  const value = Number(header ?? query);
+  return Number.isInteger(value) && value > 0 ? value : 0;
+}
+
+/**
+ * Respond to a request that started a run.
+ * SSE clients get the run's event stream (with the run ID in the X-Run-Id header
+ * and the first `run_started` event); other clients get the run ID immediately
+ * and can follow it via GET /chat/:id/runs/:runId.
+ */
+function respondWithRun(c: Context<AuthContext>, run: Run) {
+  c.header('X-Run-Id', run.id);
+
+  if (!c.req.header('Accept')?.includes('text/event-stream')) {
+    return c.json({ conversationId: run.conversationId, runId: run.id }, 202);
+  }
+
+  return streamSSE(c, async (stream) => {
+    await pipeStreamToSSE(stream, run.id, 0);
   });
 }
 
@@ -76,9 +168,45 @@ function deduplicatePermissionDenials(denials: PermissionDenial[]): PermissionDe
 
 async function sendNonStreamingMessage(
   conversation: Conversation,
+  userId: string,
   message: string
 ): Promise<{ text: string }> {
-  const response = await runClaude(message, conversation.claudeSessionId);
+  // No client to report queue position to, so just wait for a slot
+  const ticketId = crypto.randomUUID();
+  const slot = await acquireProcessSlot({ ticketId, userId });
+  if (!slot) {
+    throw new Error('Left the process queue');
+  }
+
+  let mcpConfigFile: string | null = null;
+  let response;
+  try {
+    const toolRules = await getApplicableTools(userId, conversation.id, getWorkDir(conversation.workDir));
+    if (conversation.mcpServers) {
+      mcpConfigFile = writeMcpConfigFile(ticketId, getWorkDir(conversation.workDir), conversation.mcpServers);
+    }
+
+    response = await runClaude(message, conversation.claudeSessionId, {
+      workDir: conversation.workDir,
+      forkSession: conversation.forkSessionPending,
+      resumeSessionAt: conversation.resumeSessionAt,
+      toolRules,
+      extendedThinking: conversation.extendedThinking,
+      model: conversation.model,
+      permissionMode: conversation.permissionMode,
+      attachmentDir: getExistingAttachmentDir(conversation.id),
+      ...(mcpConfigFile && { mcpConfigs: [mcpConfigFile], strictMcpConfig: true }),
+    });
+  } finally {
+    slot.release();
+    if (mcpConfigFile) {
+      removeMcpConfigFile(mcpConfigFile);
+    }
+  }
+
+  if (response.usage) {
+    await recordRunUsage({ runId: null, conversationId: conversation.id, userId, usage: response.usage });
+  }
 
   if (response.sessionId && response.sessionId !== conversation.claudeSessionId) {
     await updateClaudeSessionId(conversation.id, response.sessionId);
@@ -94,237 +222,143 @@ async function sendNonStreamingMessage(
 }
 
 // =============================================================================
-// Streaming: Setup & Callbacks
+// Streaming Request Setup
 // =============================================================================
 
-interface StreamingState {
-  segments: string[];
-  currentSegment: string;
-  result: StreamResult;
-}
-
-function createStreamingCallbacks(
-  stream: SSEStream,
-  conversation: Conversation,
-  state: StreamingState
+async function storePreStreamMessage(
+  conversationId: string,
+  message: string,
+  allowedTools?: string[],
+  alwaysAllow?: ToolRuleScope
 ) {
-  return {
-    onChunk: (text: string) => {
-      state.currentSegment += text;
-      writeSSEEvent(stream, 'chunk', { content: text });
-    },
-
-    onSegmentEnd: (content: string) => {
-      if (content.trim()) {
-        state.segments.push(content);
-        writeSSEEvent(stream, 'segment_end', { conversationId: conversation.id, content });
-      }
-      state.currentSegment = '';
-    },
-
-    onToolStart: (toolName: string) => {
-      writeSSEEvent(stream, 'tool_start', { toolName });
-    },
-
-    onToolEnd: (toolName: string) => {
-      writeSSEEvent(stream, 'tool_end', { toolName });
-    },
-
-    onComplete: (result: string, sessionId: string | null, permissionDenials?: PermissionDenial[]) => {
-      // Deduplicate permission denials - Claude sometimes retries the same tool call
-      // multiple times when denied, resulting in duplicate entries with different tool_use_ids
-      const deduplicatedDenials = permissionDenials
-        ? deduplicatePermissionDenials(permissionDenials)
-        : undefined;
-
-      state.result = { sessionId, permissionDenials: deduplicatedDenials };
-
-      // Send terminal event immediately to ensure client receives it before connection closes
-      if (deduplicatedDenials && deduplicatedDenials.length > 0) {
-        logInfo('chat', `Permission required for ${deduplicatedDenials.length} tool(s)`);
-        writeSSEEvent(stream, 'permission_required', {
-          conversationId: conversation.id,
-          denials: deduplicatedDenials,
-        });
-      } else if (state.currentSegment.trim() || state.segments.length > 0) {
-        writeSSEEvent(stream, 'complete', { conversationId: conversation.id });
-      } else {
-        writeSSEEvent(stream, 'no_response', {
-          conversationId: conversation.id,
-          message: 'This command completed but produced no visible output.',
-        });
-      }
-    },
-
-    onError: (error: string) => {
-      logError('chat', `Stream error: ${error}`);
-      state.result = { sessionId: null, error };
-      writeSSEEvent(stream, 'error', { message: error });
-    },
-  };
+  if (allowedTools && allowedTools.length > 0) {
+    await createMessage({
+      conversationId,
+      role: 'system',
+      content: `${alwaysAllow ? '✓ Always allowed' : '✓ Approved'}: ${allowedTools.join(', ')}`,
+    });
+  } else {
+    await createMessage({
+      conversationId,
+      role: 'user',
+      content: message,
+    });
+  }
 }
 
-// =============================================================================
-// Streaming: Post-Stream Processing
-// =============================================================================
-
-async function persistStreamResult(
-  stream: SSEStream,
+/**
+ * Save approved tools as "always allow" rules for the conversation's scope
+ */
+async function saveAlwaysAllowRules(
+  c: Context<AuthContext>,
   conversation: Conversation,
-  userId: string,
-  message: string,
-  state: StreamingState
+  tools: string[],
+  scope: ToolRuleScope
 ) {
-  const { result, segments, currentSegment } = state;
+  const userId = c.get('userId');
+  const rules = await createToolRules(userId, tools, {
+    scope,
+    directory: getWorkDir(conversation.workDir),
+    conversationId: conversation.id,
+  });
 
-  // Update session ID if changed
-  if (result.sessionId && result.sessionId !== conversation.claudeSessionId) {
-    await updateClaudeSessionId(conversation.id, result.sessionId);
+  for (const rule of rules) {
+    logAuditEvent({
+      userId,
+      action: AuditActions.TOOL_RULE_CREATE,
+      resource: 'tool_rule',
+      resourceId: rule.id,
+      metadata: { tool: rule.tool, scope, conversationId: conversation.id },
+      ip: getClientIp(c),
+      userAgent: getUserAgent(c),
+    });
   }
+}
 
-  if (result.permissionDenials && result.permissionDenials.length > 0) {
-    // Store any partial response before permission request
-    await storeSegments(conversation.id, segments, currentSegment);
-  } else {
-    // Include final segment
-    const allSegments = currentSegment.trim()
-      ? [...segments, currentSegment]
-      : segments;
-
-    if (allSegments.length > 0) {
-      // Store all segments as messages
-      for (const segmentContent of allSegments) {
-        await createMessage({
-          conversationId: conversation.id,
-          role: 'assistant',
-          content: segmentContent,
-        });
-      }
-
-      // Generate and send title update
-      const newTitle = await generateAndUpdateTitle(conversation, message, allSegments);
-      if (newTitle) {
-        writeSSEEvent(stream, 'title_update', { conversationId: conversation.id, title: newTitle });
-      }
+/**
+ * Replace the conversation's last turn and run it again: the shared part of
+ * the edit and regenerate routes
+ */
+async function replaceTurnAndRun(c: Context<AuthContext>, content?: string) {
+  const conversationId = c.req.param('id') ?? '';
+  const messageId = c.req.param('messageId') ?? '';
+  const authResult = await authorizeConversation(c, conversationId);
 
-      // Send push notification
-      sendMessageReadyNotification(userId, {
-        conversationId: conversation.id,
-        title: newTitle ?? conversation.title ?? undefined,
-        messagePreview: allSegments.join('\n').trim(),
-      });
-    }
+  if (!authResult.authorized) {
+    return c.json({ error: authResult.error }, authResult.status);
   }
-}
 
-async function storeSegments(conversationId: string, segments: string[], currentSegment: string) {
-  for (const segmentContent of segments) {
-    await createMessage({ conversationId, role: 'assistant', content: segmentContent });
+  // History can't change under a run that is still writing it
+  if (getActiveRun(conversationId)) {
+    return c.json({ error: 'Wait for the current run to finish' }, 409);
   }
-  if (currentSegment.trim()) {
-    await createMessage({ conversationId, role: 'assistant', content: currentSegment });
-  }
-}
 
-async function generateAndUpdateTitle(
-  conversation: Conversation,
-  userMessage: string,
-  segments: string[]
-): Promise<string | null> {
-  try {
-    logInfo('chat', `Generating title for conversation ${conversation.id}, current title: ${conversation.title}`);
-    const recentMessages = [
-      { role: 'user', content: userMessage },
-      { role: 'assistant', content: segments.join('\n') },
-    ];
-    const titleResult = await generateTitle(conversation.title, recentMessages);
-    logInfo('chat', `Title result: ${JSON.stringify(titleResult)}`);
-
-    if (titleResult.title) {
-      await updateConversationTitle(conversation.id, titleResult.title);
-      logInfo('chat', `Updated title to: ${titleResult.title}`);
-      return titleResult.title;
-    }
-  } catch (titleError) {
-    logError('chat', `Title generation failed: ${titleError}`);
+  const result = await replaceTurn(authResult.conversation, messageId, content);
+  if (!result.replaced) {
+    return c.json({ error: result.error }, result.status);
   }
-  return null;
-}
-
-// =============================================================================
-// Streaming: Main Handler
-// =============================================================================
-
-async function handleStreamingResponse(
-  stream: SSEStream,
-  message: string,
-  conversation: Conversation,
-  userId: string,
-  allowedTools?: string[]
-) {
-  const state: StreamingState = {
-    segments: [],
-    currentSegment: '',
-    result: { sessionId: null },
-  };
-
-  const callbacks = createStreamingCallbacks(stream, conversation, state);
-
-  await runClaudeStreaming(
-    message,
-    conversation.id,
-    conversation.claudeSessionId,
-    callbacks,
-    { allowedTools }
-  );
 
-  // If there was an error, don't do DB operations
-  if (state.result.error) {
-    return;
-  }
+  const userId = c.get('userId');
+  logAuditEvent({
+    userId,
+    action: content === undefined ? AuditActions.CHAT_REGENERATE : AuditActions.CHAT_EDIT,
+    resource: 'conversation',
+    resourceId: conversationId,
+    metadata: { replacedMessageId: messageId, messageId: result.message.id },
+    ip: getClientIp(c),
+    userAgent: getUserAgent(c),
+  });
 
-  try {
-    await persistStreamResult(stream, conversation, userId, message, state);
-  } catch (dbError) {
-    logError('chat', `Failed to store response: ${dbError}`);
-    writeSSEEvent(stream, 'error', { message: 'Failed to store response' });
-  }
+  const prompt = buildAttachmentPrompt(result.message.content, result.message.attachments ?? []);
+  const run = startRun({ conversation: result.conversation, userId, message: prompt });
+  return respondWithRun(c, run);
 }
 
-// =============================================================================
-// Streaming Request Setup
-// =============================================================================
+/**
+ * Store a multipart message with its attachments and run it. The prompt
+ * lists the files' paths, so Claude can open them with the Read tool.
+ */
+async function sendWithAttachments(c: Context<AuthContext>, conversation: Conversation) {
+  const { message, attachments: files } = await parseFormData(c.req.raw, chatUploadSchema);
+  const userId = c.get('userId');
 
-async function storePreStreamMessage(
-  conversationId: string,
-  message: string,
-  allowedTools?: string[]
-) {
-  if (allowedTools && allowedTools.length > 0) {
-    await createMessage({
-      conversationId,
-      role: 'system',
-      content: `✓ Approved: ${allowedTools.join(', ')}`,
-    });
-  } else {
-    await createMessage({
-      conversationId,
+  // Files are written first, so the message and its attachments are recorded together or not at all
+  let prompt: string;
+  try {
+    const stored = await storeAttachmentFiles(conversation.id, files);
+    const userMessage = await createMessage({
+      conversationId: conversation.id,
       role: 'user',
       content: message,
+      attachments: stored,
+    }).catch(async (error) => {
+      await removeAttachmentFiles(conversation.id, stored);
+      throw error;
     });
+    prompt = buildAttachmentPrompt(message, userMessage.attachments ?? []);
+  } catch (error) {
+    logError('chat', `Failed to store message with attachments: ${error}`);
+    const errorMessage = error instanceof Error ? error.message : 'Storage error';
+    return c.json({ error: `Failed to store message: ${errorMessage}` }, 500);
   }
+
+  logInfo('chat', `Streaming request with ${files.length} attachment(s) for conversation: ${conversation.id}`);
+
+  const run = startRun({ conversation, userId, message: prompt });
+  return respondWithRun(c, run);
 }
 
 // =============================================================================
 // Routes
 // =============================================================================
 
-// GET /chat - List conversations
+// GET /chat - List conversations, pinned first (?parentId= lists the forks of a
+// conversation, ?tag= the ones with a tag, ?archived=true the archived ones)
 chat.get('/', async (c) => {
   const userId = c.get('userId');
-  const { limit, cursor } = parseQuery(new URL(c.req.url), paginationSchema);
+  const { limit, cursor, parentId, tag, archived } = parseQuery(new URL(c.req.url), conversationListSchema);
 
-  const result = await getConversations(userId, { limit, cursor });
+  const result = await getConversations(userId, { limit, cursor, parentId, tag, archived });
   return c.json({
     conversations: result.items,
     hasMore: result.hasMore,
@@ -335,9 +369,12 @@ chat.get('/', async (c) => {
 // POST /chat - Send a message (creates new conversation)
 chat.post('/', async (c) => {
   const userId = c.get('userId');
-  const { message } = await parseBody(c.req.raw, chatMessageSchema);
+  const { message, workDir } = await parseBody(c.req.raw, chatMessageSchema);
 
-  const conversation = await createConversation(userId);
+  const conversation = await createConversation(userId, {}, workDir ?? null);
+  if (workDir) {
+    await recordDirectoryUse(userId, workDir);
+  }
 
   await createMessage({
     conversationId: conversation.id,
@@ -346,7 +383,7 @@ chat.post('/', async (c) => {
   });
 
   try {
-    const response = await sendNonStreamingMessage(conversation, message);
+    const response = await sendNonStreamingMessage(conversation, userId, message);
     return c.json({ conversationId: conversation.id, message: response.text });
   } catch (error) {
     logError('chat', error);
@@ -357,12 +394,29 @@ chat.post('/', async (c) => {
 // POST /chat/stream - Stream to new conversation (creates it)
 chat.post('/stream', async (c) => {
   const userId = c.get('userId');
-  const { message, allowedTools } = await parseBody(c.req.raw, chatStreamSchema);
+  const {
+    message, allowedTools, alwaysAllow, extendedThinking, model, permissionMode, mcpServers, workDir, autoTag,
+  } = await parseBody(c.req.raw, chatStreamSchema);
+
+  const unknownServers = mcpServers ? findUnknownMcpServers(getWorkDir(workDir), mcpServers) : [];
+  if (unknownServers.length > 0) {
+    return c.json({ error: `Unknown MCP server: ${unknownServers.join(', ')}` }, 400);
+  }
 
-  const conversation = await createConversation(userId);
+  const conversation = await createConversation(
+    userId,
+    { extendedThinking, model, permissionMode, mcpServers },
+    workDir ?? null
+  );
+  if (workDir) {
+    await recordDirectoryUse(userId, workDir);
+  }
 
   try {
-    await storePreStreamMessage(conversation.id, message, allowedTools);
+    await storePreStreamMessage(conversation.id, message, allowedTools, alwaysAllow);
+    if (alwaysAllow && allowedTools?.length) {
+      await saveAlwaysAllowRules(c, conversation, allowedTools, alwaysAllow);
+    }
   } catch (dbError) {
     logError('chat', `Failed to store message: ${dbError}`);
     const errorMessage = dbError instanceof Error ? dbError.message : 'Database error';
@@ -371,8 +425,78 @@ chat.post('/stream', async (c) => {
 
   logInfo('chat', `Streaming request for new conversation: ${conversation.id}`);
 
-  return streamSSE(c, async (stream) => {
-    await handleStreamingResponse(stream, message, conversation, userId, allowedTools);
+  const run = startRun({ conversation, userId, message, allowedTools, autoTag });
+  return respondWithRun(c, run);
+});
+
+// Directory and import routes are registered before /:id so their paths aren't taken for a conversation ID
+
+// GET /chat/directories - Directories for the picker: recent ones and the configured roots
+chat.get('/directories', async (c) => {
+  const recent = await getRecentDirectories(c.get('userId'));
+  const defaultDir = getWorkDir();
+
+  return c.json({
+    recent,
+    configured: [...new Set([defaultDir, ...getAllowedRoots()])],
+    defaultDir,
+  });
+});
+
+// POST /chat/directories/:path/label - Set the display label of a directory (path URL-encoded)
+chat.post('/directories/:path/label', async (c) => {
+  const { label } = await parseBody(c.req.raw, directoryLabelSchema);
+  const directory = await setDirectoryLabel(c.get('userId'), c.req.param('path'), label);
+
+  if (!directory) {
+    return c.json({ error: 'Directory not found' }, 404);
+  }
+
+  return c.json({ directory });
+});
+
+// DELETE /chat/directories/:path - Remove a directory from the recent list (path URL-encoded)
+chat.delete('/directories/:path', async (c) => {
+  const deleted = await deleteDirectory(c.get('userId'), c.req.param('path'));
+
+  if (!deleted) {
+    return c.json({ error: 'Directory not found' }, 404);
+  }
+
+  return c.json({ success: true });
+});
+
+// GET /chat/import/available-sessions - Local CLI sessions that can be imported
+chat.get('/import/available-sessions', async (c) => {
+  const sessions = await listAvailableSessions(c.get('userId'));
+  return c.json({ sessions });
+});
+
+// POST /chat/import - Import a local CLI session as a new conversation
+chat.post('/import', async (c) => {
+  const userId = c.get('userId');
+  const { sessionId } = await parseBody(c.req.raw, sessionImportSchema);
+
+  const result = await importSession(userId, sessionId);
+  if (!result.imported) {
+    logInfo('chat', `Import of session ${sessionId} rejected: ${result.error}`);
+    return c.json({ error: result.error, conversationId: result.conversationId }, result.status);
+  }
+
+  logAuditEvent({
+    userId,
+    action: AuditActions.CHAT_IMPORT,
+    resource: 'conversation',
+    resourceId: result.conversationId,
+    metadata: { sessionId, messageCount: result.messageCount },
+    ip: getClientIp(c),
+    userAgent: getUserAgent(c),
+  });
+
+  return c.json({
+    conversationId: result.conversationId,
+    messageCount: result.messageCount,
+    title: result.title,
   });
 });
 
@@ -387,9 +511,11 @@ chat.get('/:id', async (c) => {
 
   const { limit, cursor } = parseQuery(new URL(c.req.url), paginationSchema);
   const result = await getMessages(conversationId, { limit, cursor });
+  const usage = await getConversationUsage(conversationId);
 
   return c.json({
     conversation: authResult.conversation,
+    usage,
     messages: result.items,
     hasMore: result.hasMore,
     nextCursor: result.nextCursor,
@@ -407,6 +533,7 @@ chat.post('/:id', async (c) => {
 
   const { message } = await parseBody(c.req.raw, chatMessageSchema);
   const conversation = authResult.conversation;
+  const userId = c.get('userId');
 
   await createMessage({
     conversationId: conversation.id,
@@ -415,7 +542,7 @@ chat.post('/:id', async (c) => {
   });
 
   try {
-    const response = await sendNonStreamingMessage(conversation, message);
+    const response = await sendNonStreamingMessage(conversation, userId, message);
     return c.json({ conversationId: conversation.id, message: response.text });
   } catch (error) {
     logError('chat', error);
@@ -423,6 +550,52 @@ chat.post('/:id', async (c) => {
   }
 });
 
+// PATCH /chat/:id - Update conversation settings and metadata (title, pinned, archived, color)
+chat.patch('/:id', async (c) => {
+  const conversationId = c.req.param('id');
+  const authResult = await authorizeConversation(c, conversationId);
+
+  if (!authResult.authorized) {
+    return c.json({ error: authResult.error }, authResult.status);
+  }
+
+  const updates = await parseBody(c.req.raw, conversationUpdateSchema);
+
+  // Server names only mean something in the conversation's directory
+  if (updates.mcpServers) {
+    const unknownServers = findUnknownMcpServers(getWorkDir(authResult.conversation.workDir), updates.mcpServers);
+    if (unknownServers.length > 0) {
+      return c.json({ error: `Unknown MCP server: ${unknownServers.join(', ')}` }, 400);
+    }
+  }
+
+  const conversation = await updateConversation(conversationId, updates);
+
+  logInfo('chat', `Updated conversation ${conversationId}: ${JSON.stringify(updates)}`);
+  return c.json({ conversation });
+});
+
+// PUT /chat/:id/tags - Replace the tags of a conversation
+chat.put('/:id/tags', async (c) => {
+  const conversationId = c.req.param('id');
+  const authResult = await authorizeConversation(c, conversationId);
+
+  if (!authResult.authorized) {
+    return c.json({ error: authResult.error }, authResult.status);
+  }
+
+  const { tagIds } = await parseBody(c.req.raw, conversationTagsSchema);
+  const uniqueIds = [...new Set(tagIds)];
+  const ownedIds = await getOwnedTagIds(c.get('userId'), uniqueIds);
+  if (ownedIds.length !== uniqueIds.length) {
+    return c.json({ error: 'Tag not found' }, 404);
+  }
+
+  const tags = await setConversationTags(conversationId, uniqueIds);
+  logInfo('chat', `Set ${tags.length} tag(s) on conversation ${conversationId}`);
+  return c.json({ tags });
+});
+
 // DELETE /chat/:id - Delete a conversation
 chat.delete('/:id', async (c) => {
   const conversationId = c.req.param('id');
@@ -434,11 +607,13 @@ chat.delete('/:id', async (c) => {
   }
 
   await deleteConversation(conversationId);
+  await deleteAttachmentDir(conversationId);
   logInfo('chat', `Deleted conversation: ${conversationId}`);
   return c.json({ success: true });
 });
 
-// POST /chat/:id/stream - Stream to existing conversation
+// POST /chat/:id/stream - Stream to existing conversation (multipart/form-data
+// to attach files to the message)
 chat.post('/:id/stream', async (c) => {
   const conversationId = c.req.param('id');
   const authResult = await authorizeConversation(c, conversationId);
@@ -447,12 +622,24 @@ chat.post('/:id/stream', async (c) => {
     return c.json({ error: authResult.error }, authResult.status);
   }
 
-  const { message, allowedTools } = await parseBody(c.req.raw, chatStreamSchema);
+  // A second run would kill the first one's CLI process mid-reply
+  if (getActiveRun(conversationId)) {
+    return c.json({ error: 'Wait for the current run to finish' }, 409);
+  }
+
+  if (c.req.header('Content-Type')?.startsWith('multipart/form-data')) {
+    return sendWithAttachments(c, authResult.conversation);
+  }
+
+  const { message, allowedTools, alwaysAllow } = await parseBody(c.req.raw, conversationStreamSchema);
   const conversation = authResult.conversation;
   const userId = c.get('userId');
 
   try {
-    await storePreStreamMessage(conversation.id, message, allowedTools);
+    await storePreStreamMessage(conversation.id, message, allowedTools, alwaysAllow);
+    if (alwaysAllow && allowedTools?.length) {
+      await saveAlwaysAllowRules(c, conversation, allowedTools, alwaysAllow);
+    }
   } catch (dbError) {
     logError('chat', `Failed to store message: ${dbError}`);
     const errorMessage = dbError instanceof Error ? dbError.message : 'Database error';
@@ -461,9 +648,244 @@ chat.post('/:id/stream', async (c) => {
 
   logInfo('chat', `Streaming request for conversation: ${conversation.id}${allowedTools?.length ? ` with allowed tools: ${allowedTools.join(', ')}` : ''}`);
 
+  const run = startRun({ conversation, userId, message, allowedTools });
+  return respondWithRun(c, run);
+});
+
+// GET /chat/:id/stream - Reconnect to the latest stream, replaying events after Last-Event-ID
+chat.get('/:id/stream', async (c) => {
+  const conversationId = c.req.param('id');
+  const authResult = await authorizeConversation(c, conversationId);
+
+  if (!authResult.authorized) {
+    return c.json({ error: authResult.error }, authResult.status);
+  }
+
+  const streamId = getLatestStreamId(conversationId);
+  if (!streamId) {
+    return c.json({ error: 'No active stream for this conversation' }, 404);
+  }
+
+  const lastEventId = getLastEventId(c.req.header('Last-Event-ID'), c.req.query('lastEventId'));
+  logInfo('chat', `Reconnecting to stream for conversation: ${conversationId} after event ${lastEventId}`);
+
   return streamSSE(c, async (stream) => {
-    await handleStreamingResponse(stream, message, conversation, userId, allowedTools);
+    await pipeStreamToSSE(stream, streamId, lastEventId);
+  });
+});
+
+// GET /chat/:id/export - Download the full conversation (?format=markdown|json|html)
+chat.get('/:id/export', async (c) => {
+  const conversationId = c.req.param('id');
+  const authResult = await authorizeConversation(c, conversationId);
+
+  if (!authResult.authorized) {
+    return c.json({ error: authResult.error }, authResult.status);
+  }
+
+  const { format } = parseQuery(new URL(c.req.url), exportQuerySchema);
+  const messages = await getAllMessages(conversationId);
+  const usage = await getConversationUsage(conversationId);
+  const file = exportConversation(authResult.conversation, messages, usage, format);
+
+  logInfo('chat', `Exported conversation ${conversationId} as ${format} (${messages.length} messages)`);
+
+  c.header('Content-Type', file.contentType);
+  c.header('Content-Disposition', `attachment; filename="${file.filename}"`);
+  return c.body(file.body);
+});
+
+// POST /chat/:id/messages/:messageId/regenerate - Run the last user message again
+chat.post('/:id/messages/:messageId/regenerate', async (c) => {
+  return replaceTurnAndRun(c);
+});
+
+// POST /chat/:id/messages/:messageId/edit - Replace the last user message and run it
+chat.post('/:id/messages/:messageId/edit', async (c) => {
+  const { message } = await parseBody(c.req.raw, messageEditSchema);
+  return replaceTurnAndRun(c, message);
+});
+
+// GET /chat/:id/messages/:messageId/alternates - Old versions of the turn the message replaced
+chat.get('/:id/messages/:messageId/alternates', async (c) => {
+  const conversationId = c.req.param('id');
+  const authResult = await authorizeConversation(c, conversationId);
+
+  if (!authResult.authorized) {
+    return c.json({ error: authResult.error }, authResult.status);
+  }
+
+  const alternates = await getAlternates(c.req.param('messageId'));
+  return c.json({
+    alternates: alternates.filter((message) => message.conversationId === conversationId),
+  });
+});
+
+// POST /chat/:id/fork - Branch a new conversation off this one at a message
+chat.post('/:id/fork', async (c) => {
+  const conversationId = c.req.param('id');
+  const authResult = await authorizeConversation(c, conversationId);
+
+  if (!authResult.authorized) {
+    return c.json({ error: authResult.error }, authResult.status);
+  }
+
+  const { fromMessageId } = await parseBody(c.req.raw, forkSchema);
+
+  const result = await forkFromMessage(authResult.conversation, fromMessageId);
+  if (!result.forked) {
+    return c.json({ error: result.error }, result.status);
+  }
+
+  logAuditEvent({
+    userId: c.get('userId'),
+    action: AuditActions.CHAT_FORK,
+    resource: 'conversation',
+    resourceId: result.conversation.id,
+    metadata: {
+      parentConversationId: conversationId,
+      forkMessageId: result.conversation.forkMessageId,
+      messageCount: result.messageCount,
+    },
+    ip: getClientIp(c),
+    userAgent: getUserAgent(c),
+  });
+
+  return c.json({ conversation: result.conversation, messageCount: result.messageCount }, 201);
+});
+
+// GET /chat/:id/runs/:runId - Get run status and events after ?after=<eventId>
+chat.get('/:id/runs/:runId', async (c) => {
+  const conversationId = c.req.param('id');
+  const authResult = await authorizeConversation(c, conversationId);
+
+  if (!authResult.authorized) {
+    return c.json({ error: authResult.error }, authResult.status);
+  }
+
+  const run = getRun(c.req.param('runId'));
+  if (!run || run.conversationId !== conversationId) {
+    return c.json({ error: 'Run not found' }, 404);
+  }
+
+  const events = getStreamEvents(run.id, getLastEventId(undefined, c.req.query('after'))) ?? [];
+
+  return c.json({
+    run,
+    events: events.map((event) => ({ id: event.id, type: event.type, ...event.data })),
+  });
+});
+
+// POST /chat/:id/cancel - Cancel the conversation's in-flight run
+chat.post('/:id/cancel', async (c) => {
+  const conversationId = c.req.param('id');
+  const authResult = await authorizeConversation(c, conversationId);
+
+  if (!authResult.authorized) {
+    return c.json({ error: authResult.error }, authResult.status);
+  }
+
+  const run = cancelRun(conversationId);
+  if (!run) {
+    return c.json({ error: 'No active run for this conversation' }, 404);
+  }
+
+  logAuditEvent({
+    userId: c.get('userId'),
+    action: AuditActions.CHAT_CANCEL,
+    resource: 'conversation',
+    resourceId: conversationId,
+    metadata: { runId: run.id },
+    ip: getClientIp(c),
+    userAgent: getUserAgent(c),
+  });
+
+  return c.json({ success: true, runId: run.id });
+});
+
+// POST /chat/:id/plan/approve - Leave plan mode and have Claude carry out its plan
+chat.post('/:id/plan/approve', async (c) => {
+  const conversationId = c.req.param('id');
+  const authResult = await authorizeConversation(c, conversationId);
+
+  if (!authResult.authorized) {
+    return c.json({ error: authResult.error }, authResult.status);
+  }
+
+  if (authResult.conversation.permissionMode !== 'plan') {
+    return c.json({ error: 'Conversation is not in plan mode' }, 409);
+  }
+
+  // The plan arrives while its run is still going; a new run would kill that one's CLI process
+  if (getActiveRun(conversationId)) {
+    return c.json({ error: 'Wait for the current run to finish' }, 409);
+  }
+
+  const { permissionMode, message } = await parseBody(c.req.raw, planApprovalSchema);
+  const userId = c.get('userId');
+
+  const conversation = await updateConversation(conversationId, { permissionMode });
+  if (!conversation) {
+    return c.json({ error: 'Conversation not found' }, 404);
+  }
+
+  try {
+    await createMessage({
+      conversationId,
+      role: 'system',
+      content: `✓ Plan approved (${permissionMode})`,
+    });
+    if (message) {
+      await createMessage({ conversationId, role: 'user', content: message });
+    }
+  } catch (dbError) {
+    logError('chat', `Failed to store message: ${dbError}`);
+    const errorMessage = dbError instanceof Error ? dbError.message : 'Database error';
+    return c.json({ error: `Failed to store message: ${errorMessage}` }, 500);
+  }
+
+  logAuditEvent({
+    userId,
+    action: AuditActions.CHAT_PLAN_APPROVE,
+    resource: 'conversation',
+    resourceId: conversationId,
+    metadata: { permissionMode },
+    ip: getClientIp(c),
+    userAgent: getUserAgent(c),
   });
+
+  logInfo('chat', `Plan approved for conversation ${conversationId}, continuing in ${permissionMode} mode`);
+
+  const run = startRun({ conversation, userId, message: message ?? PLAN_APPROVAL_MESSAGE });
+  return respondWithRun(c, run);
+});
+
+// POST /chat/:id/permissions/:requestId - Answer a live permission prompt of a paused run
+chat.post('/:id/permissions/:requestId', async (c) => {
+  const conversationId = c.req.param('id');
+  const authResult = await authorizeConversation(c, conversationId);
+
+  if (!authResult.authorized) {
+    return c.json({ error: authResult.error }, authResult.status);
+  }
+
+  const { decision, message, alwaysAllow } = await parseBody(c.req.raw, permissionDecisionSchema);
+  const request = resolvePermissionRequest(conversationId, c.req.param('requestId'), decision, message);
+
+  if (!request) {
+    return c.json({ error: 'Permission request not found or already answered' }, 404);
+  }
+
+  let content = decision === 'allow' ? `✓ Approved: ${request.toolName}` : `✗ Denied: ${request.toolName}`;
+  if (decision === 'allow' && alwaysAllow) {
+    const rule = getToolRuleForRequest(request);
+    await saveAlwaysAllowRules(c, authResult.conversation, [rule], alwaysAllow);
+    content = `✓ Always allowed: ${rule}`;
+  }
+
+  await createMessage({ conversationId, role: 'system', content });
+
+  return c.json({ success: true });
 });
 
 // POST /chat/:id/events - Store a permission event (approval/denial) without triggering Claude
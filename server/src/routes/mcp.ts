@@ -0,0 +1,31 @@
+import { Hono } from 'hono';
+import type { AuthContext } from '../middleware/auth';
+import { getWorkDir } from '../services/claude-config';
+import { listMcpServers } from '../services/mcp-config';
+import { authorizeConversation } from '../utils/authorization';
+import { mcpServerQuerySchema, parseQuery } from '../validation/schemas';
+
+const mcp = new Hono<AuthContext>();
+
+// GET /mcp/servers - User- and project-level MCP servers for a conversation's
+// directory (or the default directory), and the conversation's selection
+mcp.get('/servers', async (c) => {
+  const { conversationId } = parseQuery(new URL(c.req.url), mcpServerQuerySchema);
+
+  let workDir = getWorkDir();
+  let selected: string[] | null = null;
+
+  if (conversationId) {
+    const authResult = await authorizeConversation(c, conversationId);
+    if (!authResult.authorized) {
+      return c.json({ error: authResult.error }, authResult.status);
+    }
+
+    workDir = getWorkDir(authResult.conversation.workDir);
+    selected = authResult.conversation.mcpServers;
+  }
+
+  return c.json({ workDir, servers: listMcpServers(workDir), selected });
+});
+
+export { mcp as mcpRoutes };
@@ -0,0 +1,12 @@
+import { Hono } from 'hono';
+import type { AuthContext } from '../middleware/auth';
+import { config } from '../config';
+
+const models = new Hono<AuthContext>();
+
+// GET /models - Model aliases a conversation can use (null model = CLI default)
+models.get('/', (c) => {
+  return c.json({ models: config.claudeModels });
+});
+
+export { models as modelRoutes };
@@ -0,0 +1,119 @@
+import { Hono } from 'hono';
+import { logDebug } from '../services/logger';
+import {
+  isValidPermissionToken,
+  permissionPromptToolDefinition,
+  requestPermission,
+} from '../services/permission-prompt';
+
+/**
+ * Minimal MCP server (streamable HTTP transport, JSON responses) exposing the
+ * permission prompt tool to Claude CLI subprocesses. Each run gets its own
+ * token in the URL, so only the CLI process of that run can ask for permissions.
+ */
+const permissionMcp = new Hono();
+
+const DEFAULT_PROTOCOL_VERSION = '2025-06-18';
+
+interface JsonRpcRequest {
+  jsonrpc: '2.0';
+  id?: string | number | null;
+  method: string;
+  params?: Record<string, unknown>;
+}
+
+// Bun's server, passed as the env binding, lets us lift the idle timeout
+// for tool calls that wait on the user
+type BunServerEnv = { timeout?: (request: Request, seconds: number) => void } | undefined;
+
+function rpcResult(id: JsonRpcRequest['id'], result: unknown) {
+  return { jsonrpc: '2.0', id: id ?? null, result };
+}
+
+function rpcError(id: JsonRpcRequest['id'], code: number, message: string) {
+  return { jsonrpc: '2.0', id: id ?? null, error: { code, message } };
+}
+
+async function handleToolCall(token: string, rpc: JsonRpcRequest) {
+  const name = rpc.params?.name;
+  if (name !== permissionPromptToolDefinition.name) {
+    return rpcError(rpc.id, -32602, `Unknown tool: ${String(name)}`);
+  }
+
+  const args = (rpc.params?.arguments ?? {}) as {
+    tool_name?: string;
+    input?: Record<string, unknown>;
+    tool_use_id?: string;
+  };
+
+  const decision = await requestPermission(
+    token,
+    args.tool_name ?? 'unknown',
+    args.input ?? {},
+    args.tool_use_id ?? null
+  );
+
+  return rpcResult(rpc.id, {
+    content: [{ type: 'text', text: JSON.stringify(decision) }],
+  });
+}
+
+async function handleRpc(token: string, rpc: JsonRpcRequest) {
+  logDebug('permission-mcp', `MCP request: ${rpc.method}`);
+
+  switch (rpc.method) {
+    case 'initialize':
+      return rpcResult(rpc.id, {
+        protocolVersion: rpc.params?.protocolVersion ?? DEFAULT_PROTOCOL_VERSION,
+        capabilities: { tools: {} },
+        serverInfo: { name: 'ovrlrd-permissions', version: '1.0.0' },
+      });
+
+    case 'ping':
+      return rpcResult(rpc.id, {});
+
+    case 'tools/list':
+      return rpcResult(rpc.id, { tools: [permissionPromptToolDefinition] });
+
+    case 'tools/call':
+      return handleToolCall(token, rpc);
+
+    default:
+      return rpcError(rpc.id, -32601, `Method not found: ${rpc.method}`);
+  }
+}
+
+// POST /permission-mcp/:token - JSON-RPC messages from the Claude CLI
+permissionMcp.post('/:token', async (c) => {
+  const token = c.req.param('token');
+  if (!isValidPermissionToken(token)) {
+    return c.json({ error: 'Unknown permission token' }, 404);
+  }
+
+  let body: JsonRpcRequest | JsonRpcRequest[];
+  try {
+    body = await c.req.json();
+  } catch {
+    return c.json(rpcError(null, -32700, 'Parse error'), 400);
+  }
+
+  const messages = Array.isArray(body) ? body : [body];
+  const requests = messages.filter((message) => message.id !== undefined && message.id !== null);
+
+  // Notifications and responses only need an acknowledgement
+  if (requests.length === 0) {
+    return c.body(null, 202);
+  }
+
+  if (requests.some((request) => request.method === 'tools/call')) {
+    (c.env as BunServerEnv)?.timeout?.(c.req.raw, 0);
+  }
+
+  const results = await Promise.all(requests.map((request) => handleRpc(token, request)));
+  return c.json(Array.isArray(body) ? results : results[0]);
+});
+
+// Server-initiated streams aren't supported
+permissionMcp.get('/:token', (c) => c.body(null, 405));
+
+export { permissionMcp as permissionMcpRoutes };
@@ -0,0 +1,21 @@
+import { Hono } from 'hono';
+import type { AuthContext } from '../middleware/auth';
+import { searchConversations } from '../db/search';
+import { parseQuery, searchQuerySchema } from '../validation/schemas';
+
+const search = new Hono<AuthContext>();
+
+// GET /search?q= - Ranked full-text search over the user's messages and conversation titles
+search.get('/', async (c) => {
+  const { q, role, from, to, limit, cursor } = parseQuery(new URL(c.req.url), searchQuerySchema);
+
+  const result = await searchConversations(c.get('userId'), { query: q, role, from, to, limit, cursor });
+
+  return c.json({
+    hits: result.items,
+    hasMore: result.hasMore,
+    nextCursor: result.nextCursor,
+  });
+});
+
+export { search as searchRoutes };
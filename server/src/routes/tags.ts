@@ -0,0 +1,65 @@
+import { Hono } from 'hono';
+import type { AuthContext } from '../middleware/auth';
+import { createTag, deleteTag, getTag, getTags, isTagNameTaken, updateTag } from '../db/tags';
+import { logInfo } from '../services/logger';
+import { parseBody, tagSchema, tagUpdateSchema } from '../validation/schemas';
+
+const tags = new Hono<AuthContext>();
+
+// GET /tags - List the user's tags with their conversation counts
+tags.get('/', async (c) => {
+  const list = await getTags(c.get('userId'));
+  return c.json({ tags: list });
+});
+
+// POST /tags - Create a tag
+tags.post('/', async (c) => {
+  const userId = c.get('userId');
+  const { name, color } = await parseBody(c.req.raw, tagSchema);
+
+  if (await isTagNameTaken(userId, name)) {
+    return c.json({ error: 'A tag with this name already exists' }, 409);
+  }
+
+  const tag = await createTag(userId, name, color ?? null);
+  logInfo('tags', `Created tag ${tag.id}`);
+
+  return c.json({ tag }, 201);
+});
+
+// PATCH /tags/:id - Rename a tag or change its color
+tags.patch('/:id', async (c) => {
+  const userId = c.get('userId');
+  const existing = await getTag(c.req.param('id'));
+
+  if (!existing || existing.userId !== userId) {
+    return c.json({ error: 'Tag not found' }, 404);
+  }
+
+  const updates = await parseBody(c.req.raw, tagUpdateSchema);
+  if (updates.name && await isTagNameTaken(userId, updates.name, existing.id)) {
+    return c.json({ error: 'A tag with this name already exists' }, 409);
+  }
+
+  const tag = await updateTag(existing.id, updates);
+  logInfo('tags', `Updated tag ${existing.id}: ${JSON.stringify(updates)}`);
+
+  return c.json({ tag });
+});
+
+// DELETE /tags/:id - Delete a tag (its conversations are kept)
+tags.delete('/:id', async (c) => {
+  const userId = c.get('userId');
+  const tag = await getTag(c.req.param('id'));
+
+  if (!tag || tag.userId !== userId) {
+    return c.json({ error: 'Tag not found' }, 404);
+  }
+
+  await deleteTag(tag.id);
+  logInfo('tags', `Deleted tag ${tag.id}`);
+
+  return c.json({ success: true });
+});
+
+export { tags as tagRoutes };
@@ -0,0 +1,77 @@
+import { Hono } from 'hono';
+import type { AuthContext } from '../middleware/auth';
+import { createToolRule, deleteToolRule, getToolRule, getToolRules } from '../db/tool-rules';
+import { logAuditEvent, AuditActions } from '../services/audit';
+import { logInfo } from '../services/logger';
+import { authorizeConversation } from '../utils/authorization';
+import { getClientIp, getUserAgent } from '../utils/request';
+import { parseBody, parseQuery, toolRuleQuerySchema, toolRuleSchema } from '../validation/schemas';
+
+const toolRules = new Hono<AuthContext>();
+
+// GET /tool-rules - List the user's "always allow" rules (?scope= to filter)
+toolRules.get('/', async (c) => {
+  const { scope } = parseQuery(new URL(c.req.url), toolRuleQuerySchema);
+  const rules = await getToolRules(c.get('userId'), scope);
+  return c.json({ rules });
+});
+
+// POST /tool-rules - Save an "always allow" rule
+toolRules.post('/', async (c) => {
+  const userId = c.get('userId');
+  const { tool, scope, directory, conversationId } = await parseBody(c.req.raw, toolRuleSchema);
+
+  if (scope === 'conversation' && conversationId) {
+    const authResult = await authorizeConversation(c, conversationId);
+    if (!authResult.authorized) {
+      return c.json({ error: authResult.error }, authResult.status);
+    }
+  }
+
+  const rule = await createToolRule(userId, {
+    tool,
+    scope,
+    directory: directory ?? null,
+    conversationId,
+  });
+  logInfo('tool-rules', `Saved ${scope} rule ${rule.id} for ${tool}`);
+
+  logAuditEvent({
+    userId,
+    action: AuditActions.TOOL_RULE_CREATE,
+    resource: 'tool_rule',
+    resourceId: rule.id,
+    metadata: { tool, scope },
+    ip: getClientIp(c),
+    userAgent: getUserAgent(c),
+  });
+
+  return c.json({ rule }, 201);
+});
+
+// DELETE /tool-rules/:id - Remove a rule
+toolRules.delete('/:id', async (c) => {
+  const userId = c.get('userId');
+  const rule = await getToolRule(c.req.param('id'));
+
+  if (!rule || rule.userId !== userId) {
+    return c.json({ error: 'Tool rule not found' }, 404);
+  }
+
+  await deleteToolRule(rule.id);
+  logInfo('tool-rules', `Deleted rule ${rule.id}`);
+
+  logAuditEvent({
+    userId,
+    action: AuditActions.TOOL_RULE_DELETE,
+    resource: 'tool_rule',
+    resourceId: rule.id,
+    metadata: { tool: rule.tool, scope: rule.scope },
+    ip: getClientIp(c),
+    userAgent: getUserAgent(c),
+  });
+
+  return c.json({ success: true });
+});
+
+export { toolRules as toolRuleRoutes };
@@ -0,0 +1,31 @@
+import { Hono } from 'hono';
+import type { AuthContext } from '../middleware/auth';
+import { getUsageReport } from '../db/usage';
+import { getBudgetStatus } from '../services/budget';
+import { usageQuerySchema, parseQuery } from '../validation/schemas';
+
+const usage = new Hono<AuthContext>();
+
+// GET /usage - Token and cost totals for the current user, grouped by day or conversation
+usage.get('/', async (c) => {
+  const userId = c.get('userId');
+  const { from, to, groupBy } = parseQuery(new URL(c.req.url), usageQuerySchema);
+
+  const report = await getUsageReport(userId, { from, to, groupBy });
+
+  return c.json({
+    from: from ?? null,
+    to: to ?? null,
+    groupBy,
+    totals: report.totals,
+    groups: report.groups,
+  });
+});
+
+// GET /usage/budget - The current user's budget limits and spend in the current day and month
+usage.get('/budget', async (c) => {
+  const status = await getBudgetStatus(c.get('userId'));
+  return c.json(status);
+});
+
+export { usage as usageRoutes };
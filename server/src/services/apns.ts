@@ -7,6 +7,7 @@ interface PushPayload {
   body: string;
   conversationId: string;
   type?: string;
+  requestId?: string;
 }
 
 // Token cache with mutex to prevent thundering herd
@@ -131,6 +132,7 @@ export async function sendPushNotification(
           },
           conversationId: payload.conversationId,
           type: payload.type ?? 'message_ready',
+          ...(payload.requestId && { requestId: payload.requestId }),
         }),
         signal: AbortSignal.timeout(APNS_TIMEOUT_MS),
       });
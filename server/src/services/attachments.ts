@@ -0,0 +1,148 @@
+import { existsSync } from 'node:fs';
+import { copyFile, mkdir, rm } from 'node:fs/promises';
+import { basename, join, resolve } from 'node:path';
+import type { AttachmentInput, MessageAttachment } from '../db/attachments';
+import { config } from '../config';
+import { logError } from './logger';
+
+/**
+ * Accepted attachment types and the extension their files are stored with.
+ * Images are opened by the Read tool as images, the rest as text (or PDF).
+ */
+export const ATTACHMENT_TYPES: Record<string, string> = {
+  'image/png': '.png',
+  'image/jpeg': '.jpg',
+  'image/gif': '.gif',
+  'image/webp': '.webp',
+  'application/pdf': '.pdf',
+  'application/json': '.json',
+  'text/plain': '.txt',
+  'text/markdown': '.md',
+  'text/csv': '.csv',
+  'text/html': '.html',
+  'text/xml': '.xml',
+  'application/xml': '.xml',
+  'application/x-yaml': '.yaml',
+};
+
+// Files per message
+export const MAX_ATTACHMENTS = 5;
+
+const MAX_FILENAME_LENGTH = 255;
+
+/**
+ * The directory a conversation's attachments are stored in
+ */
+export function getAttachmentDir(conversationId: string): string {
+  return resolve(config.attachmentsDir, conversationId);
+}
+
+/**
+ * Where an attachment's file is stored. Files are named by attachment ID, so
+ * uploaded names never reach the filesystem.
+ */
+export function getAttachmentPath(attachment: Pick<MessageAttachment, 'id' | 'conversationId' | 'mimeType'>): string {
+  return join(getAttachmentDir(attachment.conversationId), `${attachment.id}${ATTACHMENT_TYPES[attachment.mimeType] ?? ''}`);
+}
+
+/**
+ * The MIME type without parameters such as `; charset=utf-8`
+ */
+export function getBaseMimeType(type: string): string {
+  return type.split(';')[0]?.trim().toLowerCase() ?? '';
+}
+
+/**
+ * The uploaded file name, without any path or control characters
+ */
+function sanitizeFilename(name: string): string {
+  const cleaned = basename(name.replace(/[\u0000-\u001f\u007f]/g, '').replace(/\\/g, '/')).trim();
+  return cleaned.slice(-MAX_FILENAME_LENGTH) || 'attachment';
+}
+
+/**
+ * Store uploaded files in the conversation's attachment directory, for
+ * recording with their message. Either all files are written or none are.
+ */
+export async function storeAttachmentFiles(conversationId: string, files: File[]): Promise<AttachmentInput[]> {
+  await mkdir(getAttachmentDir(conversationId), { recursive: true });
+
+  const stored: AttachmentInput[] = [];
+  try {
+    for (const file of files) {
+      const id = crypto.randomUUID();
+      const mimeType = getBaseMimeType(file.type);
+      await Bun.write(getAttachmentPath({ id, conversationId, mimeType }), file);
+      stored.push({ id, filename: sanitizeFilename(file.name), mimeType, size: file.size });
+    }
+  } catch (error) {
+    await removeAttachmentFiles(conversationId, stored);
+    throw error;
+  }
+
+  return stored;
+}
+
+/**
+ * Remove stored files whose message couldn't be recorded
+ */
+export async function removeAttachmentFiles(
+  conversationId: string,
+  attachments: Pick<MessageAttachment, 'id' | 'mimeType'>[]
+): Promise<void> {
+  await Promise.all(attachments.map(
+    (attachment) => rm(getAttachmentPath({ ...attachment, conversationId }), { force: true })
+  ));
+}
+
+/**
+ * Copy attachment files to another conversation's directory, under the IDs
+ * their copies were recorded with there. Files that are missing are skipped
+ * with a log entry, as a download of them would be.
+ */
+export async function copyAttachmentFiles(
+  conversationId: string,
+  copies: { from: MessageAttachment; toId: string }[]
+): Promise<void> {
+  if (copies.length === 0) return;
+
+  await mkdir(getAttachmentDir(conversationId), { recursive: true });
+  for (const { from, toId } of copies) {
+    try {
+      await copyFile(getAttachmentPath(from), getAttachmentPath({ id: toId, conversationId, mimeType: from.mimeType }));
+    } catch (error) {
+      logError('attachments', `Failed to copy attachment ${from.id}: ${error}`);
+    }
+  }
+}
+
+/**
+ * The attachment directory of a conversation, if it has one, so runs can
+ * give the CLI access to it
+ */
+export function getExistingAttachmentDir(conversationId: string): string | null {
+  const dir = getAttachmentDir(conversationId);
+  return existsSync(dir) ? dir : null;
+}
+
+/**
+ * Remove a conversation's attachment files (their rows go with the conversation)
+ */
+export async function deleteAttachmentDir(conversationId: string): Promise<void> {
+  await rm(getAttachmentDir(conversationId), { recursive: true, force: true });
+}
+
+/**
+ * The prompt for a message with attachments: the message followed by the
+ * paths of its files, which Claude opens with the Read tool
+ */
+export function buildAttachmentPrompt(message: string, attachments: MessageAttachment[]): string {
+  if (attachments.length === 0) {
+    return message;
+  }
+
+  const files = attachments.map(
+    (attachment) => `- ${attachment.filename} (${attachment.mimeType}): ${getAttachmentPath(attachment)}`
+  );
+  return `${message}\n\nAttached files (open them with the Read tool):\n${files.join('\n')}`;
+}
@@ -63,4 +63,13 @@ export function logAuditEvent(event: AuditEvent): void {
 export const AuditActions = {
   AUTH_LOGIN: 'auth.login',
   AUTH_TOKEN_REFRESH: 'auth.token_refresh',
+  CHAT_CANCEL: 'chat.cancel',
+  CHAT_PLAN_APPROVE: 'chat.plan_approve',
+  CHAT_IMPORT: 'chat.import',
+  CHAT_FORK: 'chat.fork',
+  CHAT_EDIT: 'chat.edit',
+  CHAT_REGENERATE: 'chat.regenerate',
+  TOOL_RULE_CREATE: 'tool_rule.create',
+  TOOL_RULE_DELETE: 'tool_rule.delete',
+  ADMIN_BUDGET_UPDATE: 'admin.budget_update',
 } as const;
@@ -0,0 +1,124 @@
+import { config } from '../config';
+import { getUserBudgetOverrides, type BudgetLimits } from '../db/budgets';
+import { getUserSpendSince } from '../db/usage';
+
+// Share of a budget at which clients are warned (80%)
+export const BUDGET_WARNING_RATIO = 0.8;
+
+export type BudgetPeriod = 'daily' | 'monthly';
+export type BudgetMetric = 'cost' | 'tokens';
+
+/**
+ * One configured limit and how much of it has been used in the current period
+ */
+export interface BudgetCheck {
+  period: BudgetPeriod;
+  metric: BudgetMetric;
+  limit: number;
+  used: number;
+  ratio: number;
+  resetsAt: string;
+}
+
+export interface BudgetSpend {
+  costUsd: number;
+  tokens: number;
+}
+
+export interface BudgetStatus {
+  limits: BudgetLimits;
+  overrides: BudgetLimits | null;
+  spend: Record<BudgetPeriod, BudgetSpend>;
+  checks: BudgetCheck[];
+}
+
+const LIMIT_FIELDS: Array<{ period: BudgetPeriod; metric: BudgetMetric; field: keyof BudgetLimits }> = [
+  { period: 'daily', metric: 'cost', field: 'dailyCostUsd' },
+  { period: 'daily', metric: 'tokens', field: 'dailyTokens' },
+  { period: 'monthly', metric: 'cost', field: 'monthlyCostUsd' },
+  { period: 'monthly', metric: 'tokens', field: 'monthlyTokens' },
+];
+
+// Budget periods are calendar days and months in UTC, matching run_usage.created_at
+function getPeriodBounds(period: BudgetPeriod, now: Date): { start: Date; end: Date } {
+  const year = now.getUTCFullYear();
+  const month = now.getUTCMonth();
+
+  if (period === 'daily') {
+    const start = new Date(Date.UTC(year, month, now.getUTCDate()));
+    return { start, end: new Date(start.getTime() + 24 * 60 * 60 * 1000) };
+  }
+
+  return { start: new Date(Date.UTC(year, month, 1)), end: new Date(Date.UTC(year, month + 1, 1)) };
+}
+
+/**
+ * Effective limits for a user: per-user overrides, falling back to the server defaults
+ */
+function resolveLimits(overrides: BudgetLimits | null): BudgetLimits {
+  const defaults = config.budgetDefaults;
+  return {
+    dailyCostUsd: overrides?.dailyCostUsd ?? defaults.dailyCostUsd,
+    monthlyCostUsd: overrides?.monthlyCostUsd ?? defaults.monthlyCostUsd,
+    dailyTokens: overrides?.dailyTokens ?? defaults.dailyTokens,
+    monthlyTokens: overrides?.monthlyTokens ?? defaults.monthlyTokens,
+  };
+}
+
+/**
+ * Get a user's limits, current spend and a check for every configured limit
+ */
+export async function getBudgetStatus(userId: string): Promise<BudgetStatus> {
+  const now = new Date();
+  const overrides = await getUserBudgetOverrides(userId);
+  const limits = resolveLimits(overrides);
+
+  const daily = getPeriodBounds('daily', now);
+  const monthly = getPeriodBounds('monthly', now);
+  const spend: Record<BudgetPeriod, BudgetSpend> = {
+    daily: await getUserSpendSince(userId, daily.start.toISOString().slice(0, 10)),
+    monthly: await getUserSpendSince(userId, monthly.start.toISOString().slice(0, 10)),
+  };
+  const resetsAt: Record<BudgetPeriod, string> = {
+    daily: daily.end.toISOString(),
+    monthly: monthly.end.toISOString(),
+  };
+
+  const checks: BudgetCheck[] = [];
+  for (const { period, metric, field } of LIMIT_FIELDS) {
+    const limit = limits[field];
+    if (limit === null) {
+      continue;
+    }
+
+    const used = metric === 'cost' ? spend[period].costUsd : spend[period].tokens;
+    checks.push({ period, metric, limit, used, ratio: used / limit, resetsAt: resetsAt[period] });
+  }
+
+  return { limits, overrides, spend, checks };
+}
+
+/**
+ * The first limit that has been reached, or null if the user may start another run
+ */
+export function getExceededBudget(status: BudgetStatus): BudgetCheck | null {
+  return status.checks.find((check) => check.ratio >= 1) ?? null;
+}
+
+/**
+ * Limits at or above the warning threshold that haven't been reached yet
+ */
+export function getBudgetWarnings(status: BudgetStatus): BudgetCheck[] {
+  return status.checks.filter((check) => check.ratio >= BUDGET_WARNING_RATIO && check.ratio < 1);
+}
+
+/**
+ * Human-readable summary, e.g. "Daily cost budget: $4.12 of $5.00 used"
+ */
+export function describeBudgetCheck(check: BudgetCheck): string {
+  const period = check.period === 'daily' ? 'Daily' : 'Monthly';
+  const amounts = check.metric === 'cost'
+    ? `$${check.used.toFixed(2)} of $${check.limit.toFixed(2)}`
+    : `${check.used.toLocaleString('en-US')} of ${check.limit.toLocaleString('en-US')} tokens`;
+  return `${period} ${check.metric} budget: ${amounts} used`;
+}
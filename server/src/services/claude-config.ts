@@ -1,13 +1,56 @@
+import { realpathSync, statSync } from 'node:fs';
+import { homedir } from 'node:os';
+import { isAbsolute, join, relative } from 'node:path';
 import { config } from '../config';
 
 // Default timeout for Claude subprocess (2 minutes)
 export const CLAUDE_TIMEOUT_MS = 2 * 60 * 1000;
 
 /**
- * Get the working directory for Claude CLI
+ * Get the working directory for Claude CLI: the conversation's own directory,
+ * or the configured default for conversations without one
  */
-export function getWorkDir(): string {
-  return config.claudeWorkDir;
+export function getWorkDir(workDir?: string | null): string {
+  return workDir || config.claudeWorkDir;
+}
+
+/**
+ * Get the roots a conversation's working directory must be under.
+ * Configure via CLAUDE_ALLOWED_ROOTS in .env (colon-separated paths).
+ */
+export function getAllowedRoots(): string[] {
+  return config.claudeAllowedRoots.length > 0 ? config.claudeAllowedRoots : [config.claudeWorkDir];
+}
+
+/**
+ * Resolve a requested working directory to its real path (following symlinks).
+ * Returns null unless it is an existing directory under an allowed root.
+ */
+export function resolveWorkDir(path: string): string | null {
+  if (!isAbsolute(path)) {
+    return null;
+  }
+
+  let realPath: string;
+  try {
+    realPath = realpathSync(path);
+    if (!statSync(realPath).isDirectory()) {
+      return null;
+    }
+  } catch {
+    return null;
+  }
+
+  const isUnderAllowedRoot = getAllowedRoots().some((root) => {
+    try {
+      const relativePath = relative(realpathSync(root), realPath);
+      return !relativePath.startsWith('..') && !isAbsolute(relativePath);
+    } catch {
+      return false;
+    }
+  });
+
+  return isUnderAllowedRoot ? realPath : null;
 }
 
 /**
@@ -25,6 +68,22 @@ export function getClaudePath(): string {
   return config.claudePath || process.env.CLAUDE_PATH || 'claude';
 }
 
+/**
+ * Get the directory where the Claude CLI keeps its state (projects, session transcripts)
+ */
+export function getClaudeConfigDir(): string {
+  return process.env.CLAUDE_CONFIG_DIR || join(process.env.HOME || homedir(), '.claude');
+}
+
+/**
+ * Get the CLI's global config file (user settings, per-project state, user and local MCP servers)
+ */
+export function getClaudeJsonPath(): string {
+  return process.env.CLAUDE_CONFIG_DIR
+    ? join(process.env.CLAUDE_CONFIG_DIR, '.claude.json')
+    : join(process.env.HOME || homedir(), '.claude.json');
+}
+
 /**
  * Get environment variables for Claude subprocess
  * Extends PATH to include common binary locations on macOS
@@ -58,7 +117,18 @@ export function getClaudeEnv(): NodeJS.ProcessEnv {
 export function buildBaseArgs(options: {
   message?: string;
   claudeSessionId?: string | null;
+  forkSession?: boolean;
+  resumeSessionAt?: string | null;
   allowedTools?: string[];
+  toolRules?: string[];
+  mcpConfigs?: string[];
+  strictMcpConfig?: boolean;
+  permissionPromptTool?: string;
+  extendedThinking?: boolean | null;
+  model?: string | null;
+  permissionMode?: string | null;
+  attachmentDir?: string | null;
+  includePartialMessages?: boolean;
   useStdin?: boolean;
 }): string[] {
   const args: string[] = [];
@@ -73,9 +143,45 @@ export function buildBaseArgs(options: {
   args.push('--output-format', 'stream-json');
   args.push('--verbose');
 
-  // Add allowed tools if any
-  if (options.allowedTools && options.allowedTools.length > 0) {
-    args.push('--allowedTools', options.allowedTools.join(' '));
+  // Emit token-level stream events in addition to whole assistant messages
+  if (options.includePartialMessages) {
+    args.push('--include-partial-messages');
+  }
+
+  // Add allowed tools if any: saved "always allow" rules plus this request's approvals
+  const allowedTools = [...new Set([...(options.toolRules ?? []), ...(options.allowedTools ?? [])])];
+  if (allowedTools.length > 0) {
+    args.push('--allowedTools', allowedTools.join(' '));
+  }
+
+  // Add MCP server configs (JSON strings or file paths)
+  if (options.mcpConfigs && options.mcpConfigs.length > 0) {
+    args.push('--mcp-config', ...options.mcpConfigs);
+  }
+
+  // Load only the servers from --mcp-config, ignoring the user and project configs
+  if (options.strictMcpConfig) {
+    args.push('--strict-mcp-config');
+  }
+
+  // Route permission prompts through an MCP tool instead of denying them
+  if (options.permissionPromptTool) {
+    args.push('--permission-prompt-tool', options.permissionPromptTool);
+  }
+
+  // Override extended thinking only when the conversation has an explicit setting
+  if (options.extendedThinking !== undefined && options.extendedThinking !== null) {
+    args.push('--settings', JSON.stringify({ alwaysThinkingEnabled: options.extendedThinking }));
+  }
+
+  // Use the conversation's model instead of the CLI default
+  if (options.model) {
+    args.push('--model', options.model);
+  }
+
+  // Plan only, or apply file edits without asking, instead of the CLI default
+  if (options.permissionMode) {
+    args.push('--permission-mode', options.permissionMode);
   }
 
   // Add additional directories
@@ -83,9 +189,24 @@ export function buildBaseArgs(options: {
     args.push('--add-dir', dir);
   }
 
+  // Let the Read tool open files attached to the conversation
+  if (options.attachmentDir) {
+    args.push('--add-dir', options.attachmentDir);
+  }
+
   // Resume session if provided
   if (options.claudeSessionId) {
     args.push('--resume', options.claudeSessionId);
+
+    // Drop everything after this transcript entry, e.g. a turn being regenerated
+    if (options.resumeSessionAt) {
+      args.push('--resume-session-at', options.resumeSessionAt);
+    }
+
+    // Branch into a new session, leaving the resumed one untouched
+    if (options.forkSession) {
+      args.push('--fork-session');
+    }
   }
 
   return args;
@@ -1,4 +1,6 @@
 import type { Subprocess } from 'bun';
+import type { RunUsage } from '../db/usage';
+import { config } from '../config';
 import { logInfo, logError, logDebug } from './logger';
 import {
   getWorkDir,
@@ -10,42 +12,126 @@ import {
 } from './claude-config';
 
 // Types for stream-json output
+interface ContentBlock {
+  type: string;
+  text?: string;
+  thinking?: string;
+  id?: string;
+  name?: string;
+  input?: unknown;
+  tool_use_id?: string;
+  content?: string | Array<{ type: string; text?: string }>;
+  is_error?: boolean;
+}
+
+// Raw API event carried by `stream_event` messages (--include-partial-messages)
+interface PartialStreamEvent {
+  type: string;
+  index?: number;
+  delta?: {
+    type: string;
+    text?: string;
+    thinking?: string;
+  };
+}
+
 interface StreamMessage {
-  type: 'system' | 'assistant' | 'user' | 'result';
+  type: 'system' | 'assistant' | 'user' | 'result' | 'stream_event';
   subtype?: string;
   message?: {
     role?: string;
-    content: Array<{ type: string; text?: string; name?: string; input?: unknown }> | string;
+    content: ContentBlock[] | string;
   };
   result?: string;
   session_id?: string;
+  // Transcript entry of assistant and user messages
+  uuid?: string;
   is_error?: boolean;
   permission_denials?: PermissionDenial[];
+  usage?: {
+    input_tokens?: number;
+    output_tokens?: number;
+    cache_creation_input_tokens?: number;
+    cache_read_input_tokens?: number;
+  };
+  total_cost_usd?: number;
+  duration_ms?: number;
+  num_turns?: number;
+  event?: PartialStreamEvent;
+  // MCP servers the CLI started with (system/init)
+  mcp_servers?: McpServerStatus[];
 }
 
+// Tool Claude calls in plan mode to present its finished plan
+export const EXIT_PLAN_MODE_TOOL = 'ExitPlanMode';
+
 export interface PermissionDenial {
   tool_name: string;
   tool_use_id: string;
   tool_input: Record<string, unknown>;
 }
 
-interface StreamSession {
+export interface McpServerStatus {
+  name: string;
+  // e.g. connected, failed, pending, needs-auth
+  status: string;
+}
+
+export interface ToolUse {
+  id: string | null;
+  name: string;
+  input: unknown;
+}
+
+export interface ToolResult {
+  toolUseId: string;
+  output: string;
+  isError: boolean;
+}
+
+export interface StreamCallbacks {
+  onSessionStart: (sessionId: string) => void;
+  onMcpStatus: (servers: McpServerStatus[]) => void;
+  onTranscriptEntry: (uuid: string) => void;
+  onChunk: (text: string) => void;
+  onThinkingChunk: (text: string) => void;
+  onThinkingEnd: () => void;
+  onCommandOutput: (output: string) => void;
+  onSegmentEnd: (content: string) => void;
+  onToolStart: (toolUse: ToolUse) => void;
+  onToolEnd: (toolName: string) => void;
+  onToolResult: (result: ToolResult) => void;
+  onUsage: (usage: RunUsage) => void;
+  onComplete: (result: string, sessionId: string | null, permissionDenials?: PermissionDenial[]) => void;
+  onError: (error: string) => void;
+}
+
+interface StreamSession extends StreamCallbacks {
   process: Subprocess;
   sessionId: string | null;
   conversationId: string;
   currentSegment: string;
   lastToolName: string | null;
+  // Text already delivered from deltas that the whole assistant message will repeat
+  pendingDeltaText: string;
+  pendingDeltaThinking: string;
   clearTimeout: () => void;
-  onChunk: (text: string) => void;
-  onSegmentEnd: (content: string) => void;
-  onToolStart: (toolName: string) => void;
-  onToolEnd: (toolName: string) => void;
-  onComplete: (result: string, sessionId: string | null, permissionDenials?: PermissionDenial[]) => void;
-  onError: (error: string) => void;
+  armTimeout: () => void;
 }
 
 export interface StreamOptions {
+  workDir?: string | null;
+  forkSession?: boolean;
+  resumeSessionAt?: string | null;
   allowedTools?: string[];
+  toolRules?: string[];
+  extendedThinking?: boolean | null;
+  model?: string | null;
+  permissionMode?: string | null;
+  attachmentDir?: string | null;
+  mcpConfigs?: string[];
+  strictMcpConfig?: boolean;
+  permissionPromptTool?: string;
 }
 
 const activeSessions = new Map<string, StreamSession>();
@@ -57,20 +143,24 @@ export async function runClaudeStreaming(
   message: string,
   conversationId: string,
   claudeSessionId: string | null,
-  callbacks: {
-    onChunk: (text: string) => void;
-    onSegmentEnd: (content: string) => void;
-    onToolStart: (toolName: string) => void;
-    onToolEnd: (toolName: string) => void;
-    onComplete: (result: string, sessionId: string | null, permissionDenials?: PermissionDenial[]) => void;
-    onError: (error: string) => void;
-  },
+  callbacks: StreamCallbacks,
   options?: StreamOptions
 ): Promise<void> {
-  const workDir = getWorkDir();
+  const workDir = getWorkDir(options?.workDir);
   const args = buildBaseArgs({
     claudeSessionId,
+    forkSession: options?.forkSession,
+    resumeSessionAt: options?.resumeSessionAt,
     allowedTools: options?.allowedTools,
+    toolRules: options?.toolRules,
+    extendedThinking: options?.extendedThinking,
+    model: options?.model,
+    permissionMode: options?.permissionMode,
+    attachmentDir: options?.attachmentDir,
+    mcpConfigs: options?.mcpConfigs,
+    strictMcpConfig: options?.strictMcpConfig,
+    permissionPromptTool: options?.permissionPromptTool,
+    includePartialMessages: config.claudePartialMessages,
     useStdin: true,
   });
 
@@ -99,23 +189,28 @@ export async function runClaudeStreaming(
     env: getClaudeEnv(),
   });
 
-  // Set up timeout
+  // Set up timeout (re-armable so it can be paused while waiting on the user)
   let timedOut = false;
-  const clearTimeout = createSubprocessTimeout(proc, CLAUDE_TIMEOUT_MS, () => {
-    timedOut = true;
-    logError('claude-stream', new Error(`Request timed out after ${CLAUDE_TIMEOUT_MS}ms`));
-    callbacks.onError('Request timed out');
-  });
-
   const session: StreamSession = {
     process: proc,
     sessionId: claudeSessionId,
     conversationId,
     currentSegment: '',
     lastToolName: null,
-    clearTimeout,
+    pendingDeltaText: '',
+    pendingDeltaThinking: '',
+    clearTimeout: () => {},
+    armTimeout: () => {
+      session.clearTimeout();
+      session.clearTimeout = createSubprocessTimeout(proc, CLAUDE_TIMEOUT_MS, () => {
+        timedOut = true;
+        logError('claude-stream', new Error(`Request timed out after ${CLAUDE_TIMEOUT_MS}ms`));
+        callbacks.onError('Request timed out');
+      });
+    },
     ...callbacks,
   };
+  session.armTimeout();
 
   activeSessions.set(conversationId, session);
 
@@ -125,7 +220,7 @@ export async function runClaudeStreaming(
     proc.stdin.end();
   } catch (error) {
     logError('claude-stream', `Failed to write to stdin: ${error}`);
-    clearTimeout();
+    session.clearTimeout();
     activeSessions.delete(conversationId);
     callbacks.onError(`Failed to send message: ${error}`);
     try {
@@ -180,7 +275,7 @@ export async function runClaudeStreaming(
     }
   } finally {
     // Always clean up resources
-    clearTimeout();
+    session.clearTimeout();
     reader.releaseLock();
     activeSessions.delete(conversationId);
   }
@@ -212,23 +307,49 @@ function handleStreamMessage(session: StreamSession, msg: StreamMessage): void {
       if (msg.subtype === 'init' && msg.session_id) {
         session.sessionId = msg.session_id;
         logInfo('claude-stream', `Session ID: ${msg.session_id}`);
+        session.onSessionStart(msg.session_id);
+      }
+      if (msg.subtype === 'init' && msg.mcp_servers) {
+        session.onMcpStatus(msg.mcp_servers);
+      }
+      break;
+
+    case 'stream_event':
+      // Token-level deltas; the whole message still follows as an `assistant` message
+      if (msg.event?.type === 'content_block_delta' && msg.event.delta) {
+        const { delta } = msg.event;
+        if (delta.type === 'text_delta' && delta.text) {
+          session.pendingDeltaText += delta.text;
+          emitText(session, delta.text);
+        } else if (delta.type === 'thinking_delta' && delta.thinking) {
+          session.pendingDeltaThinking += delta.thinking;
+          session.onThinkingChunk(delta.thinking);
+        }
       }
       break;
 
     case 'assistant':
+      if (msg.uuid) {
+        session.onTranscriptEntry(msg.uuid);
+      }
       if (msg.message?.content && Array.isArray(msg.message.content)) {
         for (const block of msg.message.content) {
           if (block.type === 'text' && block.text) {
-            // If we were waiting on a tool, signal it ended before new text
-            if (session.lastToolName) {
-              logDebug('claude-stream', `Tool end: ${session.lastToolName}`);
-              session.onToolEnd(session.lastToolName);
-              session.lastToolName = null;
-            }
-
             logDebug('claude-stream', `Response text: ${block.text.slice(0, 200)}`);
-            session.currentSegment += block.text;
-            session.onChunk(block.text);
+            const remainder = takeUndelivered(block.text, session.pendingDeltaText);
+            session.pendingDeltaText = remainder.pending;
+            if (remainder.text) {
+              emitText(session, remainder.text);
+            }
+          } else if (block.type === 'thinking' && block.thinking) {
+            // A whole thinking block closes it; only what deltas haven't delivered is streamed
+            logDebug('claude-stream', `Thinking: ${block.thinking.slice(0, 200)}`);
+            const remainder = takeUndelivered(block.thinking, session.pendingDeltaThinking);
+            session.pendingDeltaThinking = remainder.pending;
+            if (remainder.text) {
+              session.onThinkingChunk(remainder.text);
+            }
+            session.onThinkingEnd();
           } else if (block.type === 'tool_use' && block.name) {
             // Finalize current segment before tool use
             if (session.currentSegment.trim()) {
@@ -238,7 +359,7 @@ function handleStreamMessage(session: StreamSession, msg: StreamMessage): void {
             }
 
             logDebug('claude-stream', `Tool start: ${block.name}`);
-            session.onToolStart(block.name);
+            session.onToolStart({ id: block.id ?? null, name: block.name, input: block.input ?? null });
             session.lastToolName = block.name;
           }
         }
@@ -253,6 +374,9 @@ function handleStreamMessage(session: StreamSession, msg: StreamMessage): void {
         session.lastToolName = null;
       }
 
+      // Usage is reported on both successful and failed results
+      session.onUsage(parseRunUsage(msg));
+
       if (msg.is_error) {
         session.onError(msg.result || 'Unknown error');
       } else {
@@ -269,6 +393,9 @@ function handleStreamMessage(session: StreamSession, msg: StreamMessage): void {
       break;
 
     case 'user':
+      if (msg.uuid) {
+        session.onTranscriptEntry(msg.uuid);
+      }
       // Check for slash command output
       if (msg.message?.content && typeof msg.message.content === 'string') {
         const content = msg.message.content;
@@ -277,13 +404,88 @@ function handleStreamMessage(session: StreamSession, msg: StreamMessage): void {
           const commandOutput = match[1].trim();
           logDebug('claude-stream', `Slash command output: ${commandOutput.slice(0, 200)}`);
           session.currentSegment += commandOutput;
-          session.onChunk(commandOutput);
+          session.onCommandOutput(commandOutput);
+        }
+      } else if (msg.message?.content && Array.isArray(msg.message.content)) {
+        // Tool results come back to Claude as user messages
+        for (const block of msg.message.content) {
+          if (block.type === 'tool_result' && block.tool_use_id) {
+            const output = getToolResultText(block.content);
+            logDebug('claude-stream', `Tool result for ${block.tool_use_id}: ${output.slice(0, 200)}`);
+            session.onToolResult({
+              toolUseId: block.tool_use_id,
+              output,
+              isError: block.is_error === true,
+            });
+          }
         }
       }
       break;
   }
 }
 
+/**
+ * Deliver response text, closing a pending tool first
+ */
+function emitText(session: StreamSession, text: string): void {
+  // If we were waiting on a tool, signal it ended before new text
+  if (session.lastToolName) {
+    logDebug('claude-stream', `Tool end: ${session.lastToolName}`);
+    session.onToolEnd(session.lastToolName);
+    session.lastToolName = null;
+  }
+
+  session.currentSegment += text;
+  session.onChunk(text);
+}
+
+/**
+ * Split a whole content block against text already streamed from deltas.
+ * Returns the part of the block still to deliver and the delta text left
+ * over for later blocks.
+ */
+function takeUndelivered(blockText: string, pending: string): { text: string; pending: string } {
+  if (pending.startsWith(blockText)) {
+    return { text: '', pending: pending.slice(blockText.length) };
+  }
+  if (blockText.startsWith(pending)) {
+    return { text: blockText.slice(pending.length), pending: '' };
+  }
+  // Deltas and the whole message disagree; trust the deltas already shown
+  logDebug('claude-stream', 'Streamed deltas differ from the final content block');
+  return { text: '', pending: '' };
+}
+
+/**
+ * Extract token and cost figures from a `result` message
+ */
+export function parseRunUsage(msg: Pick<StreamMessage, 'usage' | 'total_cost_usd' | 'duration_ms' | 'num_turns'>): RunUsage {
+  return {
+    inputTokens: msg.usage?.input_tokens ?? 0,
+    outputTokens: msg.usage?.output_tokens ?? 0,
+    cacheCreationInputTokens: msg.usage?.cache_creation_input_tokens ?? 0,
+    cacheReadInputTokens: msg.usage?.cache_read_input_tokens ?? 0,
+    durationMs: msg.duration_ms ?? 0,
+    numTurns: msg.num_turns ?? 0,
+    totalCostUsd: msg.total_cost_usd ?? 0,
+  };
+}
+
+/**
+ * Flatten tool_result content (a string or an array of content blocks) to text
+ */
+export function getToolResultText(content: ContentBlock['content']): string {
+  if (typeof content === 'string') {
+    return content;
+  }
+  if (Array.isArray(content)) {
+    return content
+      .map((block) => (block.type === 'text' && block.text ? block.text : `[${block.type}]`))
+      .join('\n');
+  }
+  return '';
+}
+
 /**
  * Cancel an active streaming session
  */
@@ -303,6 +505,31 @@ export function cancelStream(conversationId: string): boolean {
   return false;
 }
 
+/**
+ * Pause the subprocess timeout of an active session, e.g. while a permission
+ * prompt waits for the user. Returns false if no session is active.
+ */
+export function pauseStreamTimeout(conversationId: string): boolean {
+  const session = activeSessions.get(conversationId);
+  if (!session) {
+    return false;
+  }
+  session.clearTimeout();
+  return true;
+}
+
+/**
+ * Restart the subprocess timeout of an active session with the full duration
+ */
+export function resumeStreamTimeout(conversationId: string): boolean {
+  const session = activeSessions.get(conversationId);
+  if (!session) {
+    return false;
+  }
+  session.armTimeout();
+  return true;
+}
+
 /**
  * Get count of active sessions (for monitoring)
  */
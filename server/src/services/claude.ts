@@ -1,4 +1,6 @@
 import { logError, logDebug } from './logger';
+import { parseRunUsage } from './claude-stream';
+import type { RunUsage } from '../db/usage';
 import {
   getWorkDir,
   getClaudePath,
@@ -11,14 +13,41 @@ import {
 export interface ClaudeResponse {
   text: string;
   sessionId: string;
+  usage: RunUsage | null;
+}
+
+export interface ClaudeOptions {
+  workDir?: string | null;
+  forkSession?: boolean;
+  resumeSessionAt?: string | null;
+  toolRules?: string[];
+  extendedThinking?: boolean | null;
+  model?: string | null;
+  permissionMode?: string | null;
+  attachmentDir?: string | null;
+  mcpConfigs?: string[];
+  strictMcpConfig?: boolean;
 }
 
 export async function runClaude(
   message: string,
-  claudeSessionId: string | null
+  claudeSessionId: string | null,
+  options?: ClaudeOptions
 ): Promise<ClaudeResponse> {
-  const workDir = getWorkDir();
-  const args = buildBaseArgs({ message, claudeSessionId });
+  const workDir = getWorkDir(options?.workDir);
+  const args = buildBaseArgs({
+    message,
+    claudeSessionId,
+    forkSession: options?.forkSession,
+    resumeSessionAt: options?.resumeSessionAt,
+    toolRules: options?.toolRules,
+    extendedThinking: options?.extendedThinking,
+    model: options?.model,
+    permissionMode: options?.permissionMode,
+    attachmentDir: options?.attachmentDir,
+    mcpConfigs: options?.mcpConfigs,
+    strictMcpConfig: options?.strictMcpConfig,
+  });
 
   logDebug('claude', 'Starting request', { claudeSessionId, message: message.slice(0, 100) });
 
@@ -41,6 +70,7 @@ export async function runClaude(
   let buffer = '';
   let responseText = '';
   let sessionId = '';
+  let usage: RunUsage | null = null;
 
   try {
     while (true) {
@@ -76,6 +106,11 @@ export async function runClaude(
               sessionId = event.session_id;
             }
           }
+
+          // Capture token and cost figures from the result event
+          if (event.type === 'result') {
+            usage = parseRunUsage(event);
+          }
         } catch {
           // Not valid JSON, might be partial - continue
         }
@@ -105,7 +140,7 @@ export async function runClaude(
 
     logDebug('claude', 'Request completed', { sessionId, responseLength: responseText.length });
 
-    return { text: responseText, sessionId };
+    return { text: responseText, sessionId, usage };
   } catch (error) {
     // Kill process if still running
     try {
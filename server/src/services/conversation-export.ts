@@ -0,0 +1,274 @@
+import type { Conversation, Message, MessagePart } from '../db/conversations';
+import type { UsageTotals } from '../db/usage';
+
+// Bump when the JSON shape changes in a way importers need to know about
+export const EXPORT_FORMAT_VERSION = 1;
+
+export type ExportFormat = 'markdown' | 'json' | 'html';
+
+export interface ExportedFile {
+  body: string;
+  contentType: string;
+  filename: string;
+}
+
+type RenderPart = Pick<MessagePart, 'type' | 'content' | 'toolName' | 'toolUseId' | 'input' | 'isError'>;
+
+const ROLE_LABELS: Record<Message['role'], string> = {
+  user: 'User',
+  assistant: 'Claude',
+  system: 'System',
+};
+
+// =============================================================================
+// Shared Helpers
+// =============================================================================
+
+/**
+ * Messages render from their parts when they have them (tool calls and
+ * thinking in order); older messages only have their text content
+ */
+function getRenderParts(message: Message): RenderPart[] {
+  if (message.parts && message.parts.length > 0) {
+    return message.parts;
+  }
+  return [{ type: 'text', content: message.content, toolName: null, toolUseId: null, input: null, isError: false }];
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function formatInput(input: unknown): string {
+  return JSON.stringify(input, null, 2) ?? '';
+}
+
+/**
+ * A filesystem-safe file name from the conversation title, falling back to its ID
+ */
+function getFilename(conversation: Conversation, extension: string): string {
+  const slug = (conversation.title ?? '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '')
+    .slice(0, 60);
+  return `${slug || `conversation-${conversation.id}`}.${extension}`;
+}
+
+// =============================================================================
+// JSON
+// =============================================================================
+
+/**
+ * Versioned JSON with explicitly listed fields, so the shape doesn't change
+ * when columns are added to the database
+ */
+function exportJson(conversation: Conversation, messages: Message[], usage: UsageTotals): string {
+  return JSON.stringify({
+    format: 'ovrlrd.conversation',
+    version: EXPORT_FORMAT_VERSION,
+    exportedAt: new Date().toISOString(),
+    conversation: {
+      id: conversation.id,
+      title: conversation.title,
+      claudeSessionId: conversation.claudeSessionId,
+      model: conversation.model,
+      workDir: conversation.workDir,
+      createdAt: conversation.createdAt,
+      updatedAt: conversation.updatedAt,
+    },
+    usage: {
+      runs: usage.runs,
+      inputTokens: usage.inputTokens,
+      outputTokens: usage.outputTokens,
+      totalCostUsd: usage.totalCostUsd,
+    },
+    messages: messages.map((message) => ({
+      role: message.role,
+      content: message.content,
+      createdAt: message.createdAt,
+      parts: (message.parts ?? []).map((part) => ({
+        type: part.type,
+        content: part.content,
+        toolUseId: part.toolUseId,
+        toolName: part.toolName,
+        input: part.input,
+        isError: part.isError,
+      })),
+    })),
+  }, null, 2);
+}
+
+// =============================================================================
+// Markdown
+// =============================================================================
+
+/**
+ * A code fence longer than any backtick run in the text, so the text can't close it
+ */
+function fence(text: string, language = ''): string {
+  const longestRun = Math.max(2, ...(text.match(/`+/g) ?? []).map((run) => run.length));
+  const marker = '`'.repeat(longestRun + 1);
+  return `${marker}${language}\n${text}\n${marker}`;
+}
+
+/**
+ * A collapsed block; the summary is HTML, so it is escaped
+ */
+function renderMarkdownDetails(summary: string, body: string): string {
+  return `<details>\n<summary>${escapeHtml(summary)}</summary>\n\n${body}\n\n</details>`;
+}
+
+function exportMarkdown(conversation: Conversation, messages: Message[], usage: UsageTotals): string {
+  const lines: string[] = [`# ${conversation.title ?? 'Untitled conversation'}`, ''];
+
+  lines.push(`- Started: ${conversation.createdAt} UTC`);
+  if (conversation.model) lines.push(`- Model: ${conversation.model}`);
+  if (conversation.workDir) lines.push(`- Directory: \`${conversation.workDir}\``);
+  if (usage.runs > 0) lines.push(`- Cost: $${usage.totalCostUsd.toFixed(4)} over ${usage.runs} run(s)`);
+  lines.push('');
+
+  for (const message of messages) {
+    if (message.role === 'system') {
+      lines.push(`> ${message.content} — _${message.createdAt} UTC_`, '');
+      continue;
+    }
+
+    lines.push(`## ${ROLE_LABELS[message.role]} — ${message.createdAt} UTC`, '');
+
+    for (const part of getRenderParts(message)) {
+      switch (part.type) {
+        case 'text':
+          lines.push(part.content ?? '', '');
+          break;
+        case 'command_output':
+          lines.push(fence(part.content ?? ''), '');
+          break;
+        case 'thinking':
+          lines.push(renderMarkdownDetails('Thinking', part.content ?? ''), '');
+          break;
+        case 'tool_use':
+          lines.push(renderMarkdownDetails(`Tool: ${part.toolName}`, fence(formatInput(part.input), 'json')), '');
+          break;
+        case 'tool_result':
+          lines.push(renderMarkdownDetails(part.isError ? 'Tool error' : 'Tool output', fence(part.content ?? '')), '');
+          break;
+      }
+    }
+  }
+
+  return `${lines.join('\n').trimEnd()}\n`;
+}
+
+// =============================================================================
+// HTML
+// =============================================================================
+
+// Inline styles keep the file self-contained, so it can be shared as is
+const HTML_STYLES = `
+  body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif; max-width: 820px; margin: 2rem auto; padding: 0 1rem; color: #1d1d1f; background: #fff; line-height: 1.5; }
+  header { border-bottom: 1px solid #e5e5ea; margin-bottom: 1.5rem; }
+  header ul { list-style: none; padding: 0; color: #6e6e73; font-size: 0.9rem; }
+  .message { margin: 1rem 0; padding: 0.75rem 1rem; border-radius: 12px; }
+  .user { background: #e8f0fe; }
+  .assistant { background: #f5f5f7; }
+  .system { color: #6e6e73; font-size: 0.9rem; padding: 0.25rem 1rem; }
+  .meta { font-size: 0.8rem; color: #6e6e73; margin-bottom: 0.25rem; }
+  .text { white-space: pre-wrap; word-wrap: break-word; }
+  pre { background: #1d1d1f; color: #f5f5f7; padding: 0.75rem; border-radius: 8px; overflow-x: auto; font-size: 0.85rem; }
+  details { margin: 0.5rem 0; }
+  summary { cursor: pointer; color: #6e6e73; font-size: 0.9rem; }
+  .error summary { color: #d70015; }
+`;
+
+function renderHtmlPart(part: RenderPart): string {
+  const content = escapeHtml(part.content ?? '');
+  switch (part.type) {
+    case 'text':
+      return `<div class="text">${content}</div>`;
+    case 'command_output':
+      return `<pre>${content}</pre>`;
+    case 'thinking':
+      return `<details><summary>Thinking</summary><div class="text">${content}</div></details>`;
+    case 'tool_use':
+      return `<details><summary>Tool: ${escapeHtml(part.toolName ?? '')}</summary><pre>${escapeHtml(formatInput(part.input))}</pre></details>`;
+    case 'tool_result':
+      return `<details${part.isError ? ' class="error"' : ''}><summary>${part.isError ? 'Tool error' : 'Tool output'}</summary><pre>${content}</pre></details>`;
+  }
+}
+
+function exportHtml(conversation: Conversation, messages: Message[], usage: UsageTotals): string {
+  const title = escapeHtml(conversation.title ?? 'Untitled conversation');
+
+  const meta = [`<li>Started: ${escapeHtml(conversation.createdAt)} UTC</li>`];
+  if (conversation.model) meta.push(`<li>Model: ${escapeHtml(conversation.model)}</li>`);
+  if (conversation.workDir) meta.push(`<li>Directory: <code>${escapeHtml(conversation.workDir)}</code></li>`);
+  if (usage.runs > 0) meta.push(`<li>Cost: $${usage.totalCostUsd.toFixed(4)} over ${usage.runs} run(s)</li>`);
+
+  const body = messages.map((message) => {
+    const time = `${escapeHtml(message.createdAt)} UTC`;
+    if (message.role === 'system') {
+      return `<div class="message system">${escapeHtml(message.content)} · ${time}</div>`;
+    }
+    return [
+      `<div class="message ${message.role}">`,
+      `<div class="meta">${ROLE_LABELS[message.role]} · ${time}</div>`,
+      ...getRenderParts(message).map(renderHtmlPart),
+      '</div>',
+    ].join('\n');
+  });
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${title}</title>
+<style>${HTML_STYLES}</style>
+</head>
+<body>
+<header>
+<h1>${title}</h1>
+<ul>${meta.join('')}</ul>
+</header>
+${body.join('\n')}
+</body>
+</html>
+`;
+}
+
+/**
+ * Render a conversation's full history as a downloadable file
+ */
+export function exportConversation(
+  conversation: Conversation,
+  messages: Message[],
+  usage: UsageTotals,
+  format: ExportFormat
+): ExportedFile {
+  switch (format) {
+    case 'json':
+      return {
+        body: exportJson(conversation, messages, usage),
+        contentType: 'application/json; charset=utf-8',
+        filename: getFilename(conversation, 'json'),
+      };
+    case 'html':
+      return {
+        body: exportHtml(conversation, messages, usage),
+        contentType: 'text/html; charset=utf-8',
+        filename: getFilename(conversation, 'html'),
+      };
+    case 'markdown':
+      return {
+        body: exportMarkdown(conversation, messages, usage),
+        contentType: 'text/markdown; charset=utf-8',
+        filename: getFilename(conversation, 'md'),
+      };
+  }
+}
@@ -0,0 +1,94 @@
+import {
+  forkConversation,
+  getAllMessages,
+  type Conversation,
+  type Message,
+} from '../db/conversations';
+import type { MessageAttachment } from '../db/attachments';
+import { copyAttachmentFiles } from './attachments';
+import { getSessionPoint } from './session-rewind';
+import { logDebug, logInfo } from './logger';
+
+export type ForkResult =
+  | { forked: true; conversation: Conversation; messageCount: number }
+  | { forked: false; error: string; status: 400 | 404 };
+
+/**
+ * The CLI session and transcript entry the fork resumes at. Forking the
+ * latest message continues from wherever the conversation's session is.
+ */
+async function getForkPoint(
+  source: Conversation,
+  copied: Message[],
+  isLatest: boolean
+): Promise<{ claudeSessionId: string | null; resumeSessionAt: string | null }> {
+  const current = { claudeSessionId: source.claudeSessionId, resumeSessionAt: source.resumeSessionAt };
+  if (isLatest) {
+    return current;
+  }
+
+  const point = await getSessionPoint(copied);
+  if (point) {
+    return point;
+  }
+
+  if (!copied.some((message) => message.role === 'assistant')) {
+    // Claude hasn't answered yet at the fork point, so start a fresh session
+    return { claudeSessionId: null, resumeSessionAt: null };
+  }
+
+  // Replies from before runs recorded their transcript entry only have the whole session
+  logDebug('conversation-fork', `No session point for fork point in ${source.id}, using whole session`);
+  return current;
+}
+
+/**
+ * Fork a conversation at a message (default: its latest message). The fork
+ * gets copies of the messages up to and including that one, and continues
+ * in its own branch of the CLI session, so neither side sees the other's
+ * later messages.
+ */
+export async function forkFromMessage(
+  source: Conversation,
+  fromMessageId?: string
+): Promise<ForkResult> {
+  const messages = await getAllMessages(source.id);
+  if (messages.length === 0) {
+    return { forked: false, error: 'Conversation has no messages', status: 400 };
+  }
+
+  const index = fromMessageId
+    ? messages.findIndex((message) => message.id === fromMessageId)
+    : messages.length - 1;
+  if (index === -1) {
+    return { forked: false, error: 'Message not found', status: 404 };
+  }
+
+  const copied = messages.slice(0, index + 1);
+  const forkMessage = copied[copied.length - 1];
+  const point = await getForkPoint(source, copied, index === messages.length - 1);
+
+  // The fork gets its own copies of the attachments, so they outlive the source
+  const attachmentCopies: { from: MessageAttachment; toId: string }[] = [];
+  const messagesWithCopies = copied.map((message) => ({
+    ...message,
+    attachments: message.attachments?.map((from) => {
+      const toId = crypto.randomUUID();
+      attachmentCopies.push({ from, toId });
+      return { ...from, id: toId };
+    }),
+  }));
+
+  const conversation = await forkConversation(source, {
+    messages: messagesWithCopies,
+    forkMessageId: forkMessage?.id ?? null,
+    ...point,
+    title: source.title ? `${source.title} (fork)` : null,
+  });
+
+  await copyAttachmentFiles(conversation.id, attachmentCopies);
+
+  logInfo('conversation-fork', `Forked ${source.id} at ${forkMessage?.id} as ${conversation.id} (${copied.length} messages)`);
+
+  return { forked: true, conversation, messageCount: copied.length };
+}
@@ -0,0 +1,135 @@
+import { existsSync, mkdirSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { getClaudeJsonPath } from './claude-config';
+import { logDebug, logInfo } from './logger';
+
+/**
+ * Where an MCP server is configured, as in `claude mcp add --scope`: `user`
+ * for every project, `local` for one project (both in ~/.claude.json), and
+ * `project` in the project's .mcp.json
+ */
+export type McpServerScope = 'user' | 'local' | 'project';
+
+export type McpServerType = 'stdio' | 'http' | 'sse';
+
+/**
+ * A configured server, without its env and headers (they often hold secrets)
+ */
+export interface McpServer {
+  name: string;
+  scope: McpServerScope;
+  type: McpServerType;
+  // The command of stdio servers, the URL of http and sse servers
+  command: string | null;
+  url: string | null;
+}
+
+/**
+ * A server definition as written in the CLI's config files
+ */
+type McpServerDefinition = Record<string, unknown>;
+
+interface McpConfigFile {
+  mcpServers?: Record<string, McpServerDefinition>;
+  projects?: Record<string, { mcpServers?: Record<string, McpServerDefinition> }>;
+}
+
+// Per-run --mcp-config files, removed when the run ends
+const MCP_CONFIG_DIR = join(tmpdir(), 'ovrlrd-mcp');
+
+function readConfigFile(path: string): McpConfigFile | null {
+  if (!existsSync(path)) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(readFileSync(path, 'utf8')) as McpConfigFile;
+  } catch (error) {
+    logDebug('mcp-config', `Skipping unreadable MCP config ${path}: ${error}`);
+    return null;
+  }
+}
+
+/**
+ * The server definitions the CLI would load in a working directory, by name.
+ * Like the CLI, local servers take precedence over project servers, and
+ * project servers over user servers.
+ */
+function readServerDefinitions(workDir: string): Map<string, { scope: McpServerScope; definition: McpServerDefinition }> {
+  const claudeJson = readConfigFile(getClaudeJsonPath());
+  const projectJson = readConfigFile(join(workDir, '.mcp.json'));
+
+  const scopes: [McpServerScope, Record<string, McpServerDefinition> | undefined][] = [
+    ['user', claudeJson?.mcpServers],
+    ['project', projectJson?.mcpServers],
+    ['local', claudeJson?.projects?.[workDir]?.mcpServers],
+  ];
+
+  const servers = new Map<string, { scope: McpServerScope; definition: McpServerDefinition }>();
+  for (const [scope, definitions] of scopes) {
+    for (const [name, definition] of Object.entries(definitions ?? {})) {
+      if (definition && typeof definition === 'object') {
+        servers.set(name, { scope, definition });
+      }
+    }
+  }
+
+  return servers;
+}
+
+function toMcpServer(name: string, scope: McpServerScope, definition: McpServerDefinition): McpServer {
+  const type = definition.type === 'http' || definition.type === 'sse' ? definition.type : 'stdio';
+  return {
+    name,
+    scope,
+    type,
+    command: type === 'stdio' && typeof definition.command === 'string' ? definition.command : null,
+    url: type !== 'stdio' && typeof definition.url === 'string' ? definition.url : null,
+  };
+}
+
+/**
+ * The user- and project-level MCP servers for a working directory, by name
+ */
+export function listMcpServers(workDir: string): McpServer[] {
+  return [...readServerDefinitions(workDir)]
+    .map(([name, { scope, definition }]) => toMcpServer(name, scope, definition))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * The names in a selection that aren't configured for a working directory
+ */
+export function findUnknownMcpServers(workDir: string, names: string[]): string[] {
+  const definitions = readServerDefinitions(workDir);
+  return names.filter((name) => !definitions.has(name));
+}
+
+/**
+ * Write an --mcp-config file with just the selected servers, for a run with
+ * --strict-mcp-config. Servers that are no longer configured are left out.
+ * The file holds the servers' env and headers, so only the owner can read it.
+ */
+export function writeMcpConfigFile(runId: string, workDir: string, selected: string[]): string {
+  const definitions = readServerDefinitions(workDir);
+  const mcpServers: Record<string, McpServerDefinition> = {};
+
+  for (const name of selected) {
+    const server = definitions.get(name);
+    if (server) {
+      mcpServers[name] = server.definition;
+    } else {
+      logInfo('mcp-config', `Selected MCP server ${name} is not configured for ${workDir}, skipping`);
+    }
+  }
+
+  mkdirSync(MCP_CONFIG_DIR, { recursive: true, mode: 0o700 });
+  const path = join(MCP_CONFIG_DIR, `${runId}.json`);
+  writeFileSync(path, JSON.stringify({ mcpServers }), { mode: 0o600 });
+  return path;
+}
+
+export function removeMcpConfigFile(path: string): void {
+  rmSync(path, { force: true });
+}
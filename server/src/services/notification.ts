@@ -2,6 +2,12 @@ import { sendPushNotification, type PushResult } from './apns';
 import { getUserById } from '../db/users';
 import { logDebug, logError, logInfo } from './logger';
 
+export interface PermissionRequestPayload {
+  conversationId: string;
+  requestId: string;
+  toolName: string;
+}
+
 export interface MessageReadyPayload {
   conversationId: string;
   title?: string;
@@ -24,20 +30,64 @@ export function sendMessageReadyNotification(
   });
 }
 
-async function sendNotificationAsync(
+/**
+ * Send a "permission_request" push notification when a run is paused waiting
+ * for the user to approve a tool. Fire and forget, like message_ready.
+ */
+export function sendPermissionRequestNotification(
   userId: string,
-  payload: MessageReadyPayload
-): Promise<PushResult> {
-  // Get user's device token
+  payload: PermissionRequestPayload
+): void {
+  sendPermissionNotificationAsync(userId, payload).catch((error) => {
+    logError('notification', `Failed to send notification: ${error}`);
+  });
+}
+
+/**
+ * Look up the user's device token, or null if they can't receive pushes
+ */
+async function getDeviceToken(userId: string): Promise<string | null> {
   const user = await getUserById(userId);
 
   if (!user) {
     logDebug('notification', `User not found: ${userId}`);
-    return { success: false, error: 'User not found' };
+    return null;
   }
 
   if (!user.deviceToken) {
     logDebug('notification', `No device token for user: ${userId}`);
+    return null;
+  }
+
+  return user.deviceToken;
+}
+
+async function sendPermissionNotificationAsync(
+  userId: string,
+  payload: PermissionRequestPayload
+): Promise<PushResult> {
+  const deviceToken = await getDeviceToken(userId);
+  if (!deviceToken) {
+    return { success: false, error: 'No device token' };
+  }
+
+  logInfo('notification', `Sending permission_request notification for conversation ${payload.conversationId}`);
+
+  return sendPushNotification(deviceToken, {
+    title: 'Claude needs your approval',
+    body: `Allow ${payload.toolName}?`,
+    conversationId: payload.conversationId,
+    type: 'permission_request',
+    requestId: payload.requestId,
+  });
+}
+
+async function sendNotificationAsync(
+  userId: string,
+  payload: MessageReadyPayload
+): Promise<PushResult> {
+  const deviceToken = await getDeviceToken(userId);
+  if (!deviceToken) {
     return { success: false, error: 'No device token' };
   }
 
@@ -56,7 +106,7 @@ async function sendNotificationAsync(
   }
 
   // Send the push notification
-  return sendPushNotification(user.deviceToken, {
+  return sendPushNotification(deviceToken, {
     title: 'New response from Claude',
     body,
     conversationId: payload.conversationId,
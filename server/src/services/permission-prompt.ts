@@ -0,0 +1,198 @@
+import { config } from '../config';
+import { pauseStreamTimeout, resumeStreamTimeout } from './claude-stream';
+import { logInfo } from './logger';
+
+// Name of the MCP server and tool the Claude CLI calls for permission decisions
+export const MCP_SERVER_NAME = 'ovrlrd';
+const MCP_TOOL_NAME = 'approval_prompt';
+export const PERMISSION_PROMPT_TOOL = `mcp__${MCP_SERVER_NAME}__${MCP_TOOL_NAME}`;
+
+// How long a paused run waits for the user before the request is denied (10 minutes)
+export const PERMISSION_TIMEOUT_MS = 10 * 60 * 1000;
+
+export interface PermissionRequest {
+  requestId: string;
+  conversationId: string;
+  toolName: string;
+  toolUseId: string | null;
+  input: Record<string, unknown>;
+}
+
+/**
+ * Decision returned to the Claude CLI, in the shape the permission prompt tool expects
+ */
+export type PermissionDecision =
+  | { behavior: 'allow'; updatedInput: Record<string, unknown> }
+  | { behavior: 'deny'; message: string };
+
+interface PermissionContext {
+  conversationId: string;
+  onRequest: (request: PermissionRequest) => void;
+  onResolved: (request: PermissionRequest, decision: PermissionDecision) => void;
+}
+
+interface PendingRequest {
+  request: PermissionRequest;
+  token: string;
+  resolve: (decision: PermissionDecision) => void;
+  timeoutId: ReturnType<typeof setTimeout>;
+}
+
+// Per-run tokens authorize MCP calls from the CLI subprocess back to this server
+const contexts = new Map<string, PermissionContext>();
+const pendingRequests = new Map<string, PendingRequest>();
+
+/**
+ * Register a run for live permission prompts.
+ * Returns the token the CLI uses to reach the permission prompt MCP endpoint.
+ */
+export function registerPermissionContext(context: PermissionContext): string {
+  const token = crypto.randomUUID();
+  contexts.set(token, context);
+  return token;
+}
+
+/**
+ * Unregister a run. Any request still waiting is denied, since nobody can answer it anymore.
+ */
+export function unregisterPermissionContext(token: string): void {
+  contexts.delete(token);
+  for (const pending of pendingRequests.values()) {
+    if (pending.token === token) {
+      settleRequest(pending, { behavior: 'deny', message: 'Run ended before a decision was made' });
+    }
+  }
+}
+
+/**
+ * Build the --mcp-config JSON that points the CLI at this server's permission prompt endpoint.
+ * It ends up in the CLI's argv, so it holds nothing but the run's token (no API key).
+ */
+export function getPermissionMcpConfig(token: string): string {
+  return JSON.stringify({
+    mcpServers: {
+      [MCP_SERVER_NAME]: {
+        type: 'http',
+        url: `http://127.0.0.1:${config.port}/permission-mcp/${token}`,
+      },
+    },
+  });
+}
+
+/**
+ * Check whether a token belongs to a registered run
+ */
+export function isValidPermissionToken(token: string): boolean {
+  return contexts.has(token);
+}
+
+/**
+ * Tool definition advertised to the CLI via MCP tools/list
+ */
+export const permissionPromptToolDefinition = {
+  name: MCP_TOOL_NAME,
+  description: 'Ask the Ovrlrd user to approve or deny a tool call',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      tool_name: { type: 'string' },
+      input: { type: 'object' },
+      tool_use_id: { type: 'string' },
+    },
+    required: ['tool_name', 'input'],
+  },
+};
+
+/**
+ * Ask the user for a permission decision and wait for the answer.
+ * The run's subprocess timeout is paused while waiting.
+ */
+export function requestPermission(
+  token: string,
+  toolName: string,
+  input: Record<string, unknown>,
+  toolUseId: string | null
+): Promise<PermissionDecision> {
+  const context = contexts.get(token);
+  if (!context) {
+    return Promise.resolve({ behavior: 'deny', message: 'Unknown run' });
+  }
+
+  const request: PermissionRequest = {
+    requestId: crypto.randomUUID(),
+    conversationId: context.conversationId,
+    toolName,
+    toolUseId,
+    input,
+  };
+
+  return new Promise((resolve) => {
+    const timeoutId = setTimeout(() => {
+      const pending = pendingRequests.get(request.requestId);
+      if (pending) {
+        logInfo('permission-prompt', `Permission request ${request.requestId} timed out`);
+        settleRequest(pending, { behavior: 'deny', message: 'Timed out waiting for user approval' });
+      }
+    }, PERMISSION_TIMEOUT_MS);
+
+    pendingRequests.set(request.requestId, { request, token, resolve, timeoutId });
+    pauseStreamTimeout(context.conversationId);
+
+    logInfo('permission-prompt', `Permission requested for ${toolName} in ${context.conversationId}`);
+    context.onRequest(request);
+  });
+}
+
+/**
+ * The --allowedTools rule that allows a request again without asking.
+ * Bash is narrowed to the exact command; other tools are allowed as a whole.
+ */
+export function getToolRuleForRequest(request: PermissionRequest): string {
+  const command = request.input.command;
+  if (request.toolName === 'Bash' && typeof command === 'string') {
+    return `Bash(${command})`;
+  }
+  return request.toolName;
+}
+
+/**
+ * Answer a pending permission request for a conversation.
+ * Returns the request, or null if it isn't pending (already answered, timed out, or unknown).
+ */
+export function resolvePermissionRequest(
+  conversationId: string,
+  requestId: string,
+  decision: 'allow' | 'deny',
+  message?: string
+): PermissionRequest | null {
+  const pending = pendingRequests.get(requestId);
+  if (!pending || pending.request.conversationId !== conversationId) {
+    return null;
+  }
+
+  settleRequest(
+    pending,
+    decision === 'allow'
+      ? { behavior: 'allow', updatedInput: pending.request.input }
+      : { behavior: 'deny', message: message || 'User denied this action' }
+  );
+  return pending.request;
+}
+
+function settleRequest(pending: PendingRequest, decision: PermissionDecision): void {
+  const { request } = pending;
+  clearTimeout(pending.timeoutId);
+  pendingRequests.delete(request.requestId);
+
+  // Resume the subprocess timeout once nothing else is waiting on the user
+  const stillWaiting = [...pendingRequests.values()].some(
+    (other) => other.request.conversationId === request.conversationId
+  );
+  if (!stillWaiting) {
+    resumeStreamTimeout(request.conversationId);
+  }
+
+  logInfo('permission-prompt', `Permission ${decision.behavior} for ${request.toolName} in ${request.conversationId}`);
+  contexts.get(pending.token)?.onResolved(request, decision);
+  pending.resolve(decision);
+}
@@ -0,0 +1,175 @@
+import { config } from '../config';
+import { logDebug, logInfo } from './logger';
+
+// Number of recent slot hold times used to estimate queue wait
+const DURATION_SAMPLE_SIZE = 20;
+
+export interface QueuePosition {
+  position: number;     // 1 = next to start
+  queueLength: number;
+  etaMs: number | null; // null until a run has finished to estimate from
+}
+
+/**
+ * A granted process slot. Must be released once the Claude process has exited.
+ */
+export interface ProcessSlot {
+  release: () => void;
+}
+
+interface Waiter {
+  ticketId: string;
+  userId: string;
+  seq: number;
+  lastPosition: number | null;
+  onQueued?: (position: QueuePosition) => void;
+  resolve: (slot: ProcessSlot | null) => void;
+}
+
+const queue: Waiter[] = [];
+const activeSlotsByUser = new Map<string, number>();
+const recentDurations: number[] = [];
+let activeSlots = 0;
+let nextSeq = 0;
+
+function getActiveSlotsForUser(userId: string): number {
+  return activeSlotsByUser.get(userId) ?? 0;
+}
+
+/**
+ * Waiters in the order they will be started.
+ * FIFO by default; with fair sharing, users take turns: a waiter's rank is the
+ * number of slots its user already holds plus its own earlier waiters.
+ */
+function getStartOrder(): Waiter[] {
+  if (!config.claudeQueueFairShare) {
+    return queue;
+  }
+
+  const seenPerUser = new Map<string, number>();
+  const ranked = queue.map((waiter) => {
+    const earlier = seenPerUser.get(waiter.userId) ?? 0;
+    seenPerUser.set(waiter.userId, earlier + 1);
+    return { waiter, rank: getActiveSlotsForUser(waiter.userId) + earlier };
+  });
+
+  return ranked
+    .sort((a, b) => a.rank - b.rank || a.waiter.seq - b.waiter.seq)
+    .map(({ waiter }) => waiter);
+}
+
+function estimateWaitMs(position: number): number | null {
+  if (recentDurations.length === 0) {
+    return null;
+  }
+  const average = recentDurations.reduce((sum, ms) => sum + ms, 0) / recentDurations.length;
+  return Math.round(Math.ceil(position / config.claudeMaxConcurrent) * average);
+}
+
+function grantSlot(userId: string): ProcessSlot {
+  activeSlots++;
+  activeSlotsByUser.set(userId, getActiveSlotsForUser(userId) + 1);
+  const grantedAt = Date.now();
+  let released = false;
+
+  return {
+    release: () => {
+      if (released) {
+        return;
+      }
+      released = true;
+
+      activeSlots--;
+      const remaining = getActiveSlotsForUser(userId) - 1;
+      if (remaining > 0) {
+        activeSlotsByUser.set(userId, remaining);
+      } else {
+        activeSlotsByUser.delete(userId);
+      }
+
+      recentDurations.push(Date.now() - grantedAt);
+      if (recentDurations.length > DURATION_SAMPLE_SIZE) {
+        recentDurations.shift();
+      }
+
+      drainQueue();
+    },
+  };
+}
+
+/**
+ * Start queued waiters while slots are free, then tell the rest where they stand
+ */
+function drainQueue(): void {
+  while (activeSlots < config.claudeMaxConcurrent) {
+    const next = getStartOrder()[0];
+    if (!next) {
+      break;
+    }
+    queue.splice(queue.indexOf(next), 1);
+    logInfo('process-pool', `Starting queued ${next.ticketId} (${queue.length} still queued)`);
+    next.resolve(grantSlot(next.userId));
+  }
+
+  notifyPositions();
+}
+
+function notifyPositions(): void {
+  const order = getStartOrder();
+  order.forEach((waiter, index) => {
+    const position = index + 1;
+    if (waiter.lastPosition !== position) {
+      waiter.lastPosition = position;
+      waiter.onQueued?.({ position, queueLength: order.length, etaMs: estimateWaitMs(position) });
+    }
+  });
+}
+
+/**
+ * Wait for a free Claude process slot.
+ * Resolves immediately while fewer than CLAUDE_MAX_CONCURRENT processes run;
+ * otherwise the caller is queued and `onQueued` is called whenever its position changes.
+ * Resolves with null if the ticket leaves the queue before a slot frees up.
+ */
+export function acquireProcessSlot(options: {
+  ticketId: string;
+  userId: string;
+  onQueued?: (position: QueuePosition) => void;
+}): Promise<ProcessSlot | null> {
+  if (activeSlots < config.claudeMaxConcurrent && queue.length === 0) {
+    return Promise.resolve(grantSlot(options.userId));
+  }
+
+  return new Promise((resolve) => {
+    queue.push({ ...options, seq: nextSeq++, lastPosition: null, resolve });
+    logInfo('process-pool', `Queued ${options.ticketId} (${queue.length} queued, ${activeSlots} running)`);
+    notifyPositions();
+  });
+}
+
+/**
+ * Take a slot only if one is free right now, without queueing: for short
+ * side calls (like title generation) that are skipped rather than delayed
+ */
+export function tryAcquireProcessSlot(userId: string): ProcessSlot | null {
+  if (activeSlots < config.claudeMaxConcurrent && queue.length === 0) {
+    return grantSlot(userId);
+  }
+  return null;
+}
+
+/**
+ * Remove a ticket from the queue. Returns false if it wasn't queued.
+ */
+export function leaveProcessQueue(ticketId: string): boolean {
+  const waiter = queue.find((queued) => queued.ticketId === ticketId);
+  if (!waiter) {
+    return false;
+  }
+
+  queue.splice(queue.indexOf(waiter), 1);
+  logDebug('process-pool', `Removed ${ticketId} from queue`);
+  waiter.resolve(null);
+  notifyPositions();
+  return true;
+}
@@ -0,0 +1,948 @@
+import {
+  appendMessageParts,
+  createMessage,
+  getConversation,
+  updateClaudeSessionId,
+  updateConversationTitle,
+  type ConversationTag,
+  type MessagePartInput,
+  type PermissionMode,
+} from '../db/conversations';
+import { addConversationTags, getTags } from '../db/tags';
+import { recordRunUsage, type RunUsage } from '../db/usage';
+import { createRunRecord, finishRunRecord, updateRunLastEntry, updateRunSessionId } from '../db/runs';
+import { getApplicableTools } from '../db/tool-rules';
+import {
+  runClaudeStreaming,
+  cancelStream,
+  EXIT_PLAN_MODE_TOOL,
+  type PermissionDenial,
+  type StreamCallbacks,
+} from './claude-stream';
+import {
+  openStreamBuffer,
+  appendStreamEvent,
+  closeStreamBuffer,
+} from './stream-buffer';
+import {
+  registerPermissionContext,
+  unregisterPermissionContext,
+  getPermissionMcpConfig,
+  MCP_SERVER_NAME,
+  PERMISSION_PROMPT_TOOL,
+} from './permission-prompt';
+import {
+  describeBudgetCheck,
+  getBudgetStatus,
+  getBudgetWarnings,
+  getExceededBudget,
+  type BudgetCheck,
+} from './budget';
+import { acquireProcessSlot, leaveProcessQueue } from './process-pool';
+import { getWorkDir } from './claude-config';
+import { getExistingAttachmentDir } from './attachments';
+import { removeMcpConfigFile, writeMcpConfigFile } from './mcp-config';
+import { generateTitle } from './title-generator';
+import { sendMessageReadyNotification, sendPermissionRequestNotification } from './notification';
+import { logError, logInfo } from './logger';
+import { config } from '../config';
+import { truncateToolOutput } from '../utils/tool-output';
+
+// How long a finished run's status stays queryable (matches the event buffer retention)
+const RUN_RETENTION_MS = 5 * 60 * 1000;
+
+// How long shutdown waits for cancelled runs to store their partial output
+const CANCEL_PERSIST_TIMEOUT_MS = 5 * 1000;
+
+// Pause before exiting so the last SSE writes reach attached clients
+const SSE_FLUSH_DELAY_MS = 500;
+
+// =============================================================================
+// Types
+// =============================================================================
+
+interface Conversation {
+  id: string;
+  claudeSessionId: string | null;
+  title: string | null;
+  extendedThinking: boolean | null;
+  model: string | null;
+  permissionMode: PermissionMode | null;
+  workDir: string | null;
+  mcpServers: string[] | null;
+  forkSessionPending: boolean;
+  resumeSessionAt: string | null;
+}
+
+export type RunStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface Run {
+  id: string;
+  conversationId: string;
+  userId: string;
+  status: RunStatus;
+  error: string | null;
+  startedAt: string;
+  finishedAt: string | null;
+}
+
+export interface StartRunOptions {
+  conversation: Conversation;
+  userId: string;
+  message: string;
+  allowedTools?: string[];
+  // Suggest tags from the user's existing ones once the run has replied
+  autoTag?: boolean;
+}
+
+// What changed after a reply; null fields are unchanged
+interface TitleUpdate {
+  title: string | null;
+  tags: ConversationTag[] | null;
+}
+
+interface StreamResult {
+  sessionId: string | null;
+  permissionDenials?: PermissionDenial[];
+  error?: string;
+}
+
+/**
+ * An assistant message in the making: its text plus the ordered parts
+ * (tool calls and results that led up to the text, then the text itself)
+ */
+interface Segment {
+  content: string;
+  parts: MessagePartInput[];
+}
+
+interface StreamingState {
+  segments: Segment[];
+  currentSegment: string;
+  currentParts: MessagePartInput[];
+  thinkingOpen: boolean;
+  usage: RunUsage | null;
+  result: StreamResult;
+  completed: boolean;
+  // Finished segments are written as they end, so a crash loses at most the current one
+  storedSegments: number;
+  lastMessageId: string | null;
+  writes: Promise<void>;
+  // Last CLI transcript entry, recorded on the run when it ends
+  lastEntryUuid: string | null;
+  // Session the CLI reported at start, for runs that end without a result
+  sessionId: string | null;
+}
+
+type EmitEvent = (type: string, data?: Record<string, unknown>) => void;
+
+export type CancelReason = 'user' | 'shutdown';
+
+const runs = new Map<string, Run>();
+const activeRunByConversation = new Map<string, string>();
+const cancelRequested = new Map<string, CancelReason>();
+// Settles once a run has finished persisting, so shutdown can wait for it
+const runCompletions = new Map<string, Promise<void>>();
+let acceptingRuns = true;
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Append streamed text to the current segment's parts, merging consecutive text
+ */
+function appendTextPart(parts: MessagePartInput[], type: 'text' | 'command_output', text: string): void {
+  const last = parts[parts.length - 1];
+  if (last && last.type === type) {
+    last.content = (last.content ?? '') + text;
+  } else {
+    parts.push({ type, content: text });
+  }
+}
+
+/**
+ * All segments of a run, including the unfinished current one.
+ * Tool parts that came after the last text are attached to the last segment.
+ */
+function collectSegments(state: StreamingState): Segment[] {
+  const segments = state.segments.map((segment) => ({ ...segment, parts: [...segment.parts] }));
+
+  if (state.currentSegment.trim()) {
+    segments.push({ content: state.currentSegment, parts: state.currentParts });
+  } else if (state.currentParts.length > 0) {
+    segments[segments.length - 1]?.parts.push(...state.currentParts);
+  }
+
+  return segments;
+}
+
+/**
+ * The plan text of an ExitPlanMode call
+ */
+function getPlanText(input: unknown): string {
+  const plan = (input as { plan?: unknown } | null)?.plan;
+  return typeof plan === 'string' ? plan : '';
+}
+
+/**
+ * Deduplicate permission denials by tool_name + tool_input.
+ * Claude sometimes retries the same tool call multiple times when denied,
+ * resulting in duplicate entries with different tool_use_ids.
+ */
+function deduplicatePermissionDenials(denials: PermissionDenial[]): PermissionDenial[] {
+  const seen = new Set<string>();
+  return denials.filter((denial) => {
+    const key = `${denial.tool_name}:${JSON.stringify(denial.tool_input)}`;
+    if (seen.has(key)) {
+      return false;
+    }
+    seen.add(key);
+    return true;
+  });
+}
+
+// =============================================================================
+// Streaming Callbacks
+// =============================================================================
+
+function createStreamingCallbacks(
+  emit: EmitEvent,
+  runId: string,
+  conversation: Conversation,
+  state: StreamingState
+): StreamCallbacks {
+  return {
+    onSessionStart: (sessionId: string) => {
+      state.sessionId = sessionId;
+      // Lets crash recovery find the CLI transcript of this run
+      updateRunSessionId(runId, sessionId).catch((dbError) => {
+        logError('run-manager', `Failed to record run session: ${dbError}`);
+      });
+    },
+
+    onMcpStatus: (servers) => {
+      // The permission prompt server is ours, not one of the user's
+      emit('mcp_status', { servers: servers.filter((server) => server.name !== MCP_SERVER_NAME) });
+    },
+
+    onTranscriptEntry: (uuid: string) => {
+      state.lastEntryUuid = uuid;
+    },
+
+    onChunk: (text: string) => {
+      state.currentSegment += text;
+      appendTextPart(state.currentParts, 'text', text);
+      emit('chunk', { content: text });
+    },
+
+    onThinkingChunk: (text: string) => {
+      // Each thinking block becomes its own part
+      const last = state.currentParts[state.currentParts.length - 1];
+      if (state.thinkingOpen && last?.type === 'thinking') {
+        last.content = (last.content ?? '') + text;
+      } else {
+        state.currentParts.push({ type: 'thinking', content: text });
+      }
+      state.thinkingOpen = true;
+      emit('thinking_chunk', { content: text });
+    },
+
+    onThinkingEnd: () => {
+      state.thinkingOpen = false;
+      emit('thinking_end');
+    },
+
+    onCommandOutput: (output: string) => {
+      state.currentSegment += output;
+      appendTextPart(state.currentParts, 'command_output', output);
+      emit('chunk', { content: output });
+    },
+
+    onSegmentEnd: (content: string) => {
+      if (content.trim()) {
+        state.segments.push({ content, parts: state.currentParts });
+        state.currentParts = [];
+        emit('segment_end', { conversationId: conversation.id, content });
+        queueSegmentWrites(runId, conversation.id, state);
+      }
+      state.currentSegment = '';
+    },
+
+    onToolStart: (toolUse) => {
+      state.currentParts.push({
+        type: 'tool_use',
+        toolUseId: toolUse.id,
+        toolName: toolUse.name,
+        input: toolUse.input,
+      });
+      emit('tool_start', { toolName: toolUse.name, toolUseId: toolUse.id, input: toolUse.input });
+
+      // The plan becomes a message of its own, so history shows what the user approves
+      if (toolUse.name === EXIT_PLAN_MODE_TOOL) {
+        const plan = getPlanText(toolUse.input);
+        if (plan.trim()) {
+          state.segments.push({ content: plan, parts: state.currentParts });
+          state.currentParts = [];
+          queueSegmentWrites(runId, conversation.id, state);
+        }
+        emit('plan_ready', { conversationId: conversation.id, toolUseId: toolUse.id, plan });
+      }
+    },
+
+    onToolEnd: (toolName: string) => {
+      emit('tool_end', { toolName });
+    },
+
+    onToolResult: (result) => {
+      const output = truncateToolOutput(result.output);
+      state.currentParts.push({
+        type: 'tool_result',
+        toolUseId: result.toolUseId,
+        content: output,
+        isError: result.isError,
+      });
+      emit('tool_result', { toolUseId: result.toolUseId, output, isError: result.isError });
+    },
+
+    onUsage: (usage) => {
+      state.usage = usage;
+    },
+
+    onComplete: (result: string, sessionId: string | null, permissionDenials?: PermissionDenial[]) => {
+      // Deduplicate permission denials - Claude sometimes retries the same tool call
+      // multiple times when denied, resulting in duplicate entries with different tool_use_ids
+      // A denied ExitPlanMode just ends planning; the plan is approved via POST /chat/:id/plan/approve
+      const deduplicatedDenials = permissionDenials
+        ? deduplicatePermissionDenials(
+          permissionDenials.filter((denial) => denial.tool_name !== EXIT_PLAN_MODE_TOOL)
+        )
+        : undefined;
+
+      state.result = { sessionId, permissionDenials: deduplicatedDenials };
+      state.completed = true;
+
+      // Send terminal event immediately to ensure client receives it before connection closes
+      if (deduplicatedDenials && deduplicatedDenials.length > 0) {
+        logInfo('run-manager', `Permission required for ${deduplicatedDenials.length} tool(s)`);
+        emit('permission_required', {
+          conversationId: conversation.id,
+          denials: deduplicatedDenials,
+        });
+      } else if (state.currentSegment.trim() || state.segments.length > 0) {
+        emit('complete', { conversationId: conversation.id });
+      } else {
+        emit('no_response', {
+          conversationId: conversation.id,
+          message: 'This command completed but produced no visible output.',
+        });
+      }
+    },
+
+    onError: (error: string) => {
+      logError('run-manager', `Stream error: ${error}`);
+      state.result = { sessionId: null, error };
+      emit('error', { message: error });
+    },
+  };
+}
+
+// =============================================================================
+// Post-Run Processing
+// =============================================================================
+
+/**
+ * Write finished segments that aren't stored yet. Writes are chained so they
+ * land in order, even though segments end inside synchronous stream callbacks.
+ */
+function queueSegmentWrites(runId: string, conversationId: string, state: StreamingState): Promise<void> {
+  state.writes = state.writes
+    .then(async () => {
+      for (const segment of state.segments.slice(state.storedSegments)) {
+        const stored = await createMessage({
+          conversationId,
+          role: 'assistant',
+          content: segment.content,
+          parts: segment.parts,
+          runId,
+        });
+        state.lastMessageId = stored.id;
+        state.storedSegments++;
+      }
+    })
+    .catch((dbError) => {
+      logError('run-manager', `Failed to store segment: ${dbError}`);
+    });
+  return state.writes;
+}
+
+/**
+ * Store everything not written yet: remaining finished segments, then the
+ * current one. Tool parts after the last text go to the last stored message.
+ */
+async function storeRemainingOutput(runId: string, conversationId: string, state: StreamingState) {
+  await queueSegmentWrites(runId, conversationId, state);
+
+  if (state.currentSegment.trim()) {
+    await createMessage({
+      conversationId,
+      role: 'assistant',
+      content: state.currentSegment,
+      parts: state.currentParts,
+      runId,
+    });
+  } else if (state.currentParts.length > 0 && state.lastMessageId) {
+    await appendMessageParts(state.lastMessageId, state.currentParts);
+  }
+}
+
+/**
+ * Store a completed run's session and the rest of its output.
+ * Returns the reply's segments.
+ */
+async function persistStreamResult(runId: string, conversation: Conversation, state: StreamingState): Promise<Segment[]> {
+  await storeSessionId(conversation, state);
+
+  // Include final segment
+  const allSegments = collectSegments(state);
+
+  // Store the rest of the response (before a permission request, what came so far)
+  await storeRemainingOutput(runId, conversation.id, state);
+
+  return allSegments;
+}
+
+/**
+ * Send the title (and tag) updates and the push notification for a stored reply
+ */
+async function announceReply(
+  emit: EmitEvent,
+  conversation: Conversation,
+  userId: string,
+  message: string,
+  segments: Segment[],
+  autoTag: boolean
+) {
+  // Generate and send title (and tag) updates
+  const { title: newTitle, tags } = await generateTitleAndTags(
+    conversation,
+    userId,
+    message,
+    segments.map((segment) => segment.content),
+    autoTag
+  );
+  if (newTitle) {
+    emit('title_update', { conversationId: conversation.id, title: newTitle });
+  }
+  if (tags) {
+    emit('tags_update', { conversationId: conversation.id, tags });
+  }
+
+  // Send push notification
+  sendMessageReadyNotification(userId, {
+    conversationId: conversation.id,
+    title: newTitle ?? conversation.title ?? undefined,
+    messagePreview: segments.map((segment) => segment.content).join('\n').trim(),
+  });
+}
+
+/**
+ * Point the conversation at the session the run wrote to, so the next message
+ * resumes it whether or not the run completed
+ */
+async function storeSessionId(conversation: Conversation, state: StreamingState) {
+  const sessionId = state.result.sessionId ?? state.sessionId;
+  if (sessionId && sessionId !== conversation.claudeSessionId) {
+    await updateClaudeSessionId(conversation.id, sessionId);
+  }
+}
+
+/**
+ * Persist whatever a cancelled run produced, followed by a system marker
+ * so the history shows where the response was cut off.
+ */
+async function persistCancelledResult(
+  runId: string,
+  conversation: Conversation,
+  state: StreamingState,
+  reason: CancelReason
+) {
+  await storeSessionId(conversation, state);
+  await storeRemainingOutput(runId, conversation.id, state);
+  await createMessage({
+    conversationId: conversation.id,
+    role: 'system',
+    content: reason === 'shutdown' ? '✗ Interrupted by server shutdown' : '✗ Cancelled',
+    runId,
+  });
+}
+
+/**
+ * Update the title after a reply and, with `autoTag`, add the tags suggested
+ * by the same Claude call. Only tags the user already has are suggested.
+ */
+async function generateTitleAndTags(
+  conversation: Conversation,
+  userId: string,
+  userMessage: string,
+  segments: string[],
+  autoTag: boolean
+): Promise<TitleUpdate> {
+  const update: TitleUpdate = { title: null, tags: null };
+  try {
+    const userTags = autoTag ? await getTags(userId) : [];
+
+    // Re-read it: the user may have renamed the conversation during the run
+    const current = await getConversation(conversation.id);
+    if (!current || (current.titleLocked && userTags.length === 0)) {
+      return update;
+    }
+
+    logInfo('run-manager', `Generating title for conversation ${conversation.id}, current title: ${current.title}`);
+    const recentMessages = [
+      { role: 'user', content: userMessage },
+      { role: 'assistant', content: segments.join('\n') },
+    ];
+    const titleResult = await generateTitle(userId, current.title, recentMessages, userTags.map((tag) => tag.name));
+    logInfo('run-manager', `Title result: ${JSON.stringify(titleResult)}`);
+
+    if (titleResult.title && await updateConversationTitle(conversation.id, titleResult.title)) {
+      logInfo('run-manager', `Updated title to: ${titleResult.title}`);
+      update.title = titleResult.title;
+    }
+
+    const tagIds = userTags.filter((tag) => titleResult.tags.includes(tag.name)).map((tag) => tag.id);
+    if (tagIds.length > 0) {
+      update.tags = await addConversationTags(conversation.id, tagIds);
+      logInfo('run-manager', `Tagged conversation ${conversation.id}: ${titleResult.tags.join(', ')}`);
+    }
+  } catch (titleError) {
+    logError('run-manager', `Title generation failed: ${titleError}`);
+  }
+  return update;
+}
+
+// =============================================================================
+// Run Lifecycle
+// =============================================================================
+
+async function executeRun(run: Run, options: StartRunOptions): Promise<void> {
+  const { conversation, userId, message, allowedTools } = options;
+  const emit: EmitEvent = (type, data) => {
+    appendStreamEvent(run.id, type, data);
+  };
+
+  const state: StreamingState = {
+    segments: [],
+    currentSegment: '',
+    currentParts: [],
+    thinkingOpen: false,
+    usage: null,
+    result: { sessionId: null },
+    completed: false,
+    storedSegments: 0,
+    lastMessageId: null,
+    writes: Promise.resolve(),
+    lastEntryUuid: null,
+    sessionId: null,
+  };
+
+  emit('run_started', { conversationId: conversation.id, runId: run.id });
+
+  // Budgets near their limit are announced when the run starts, and again
+  // after it if the run itself pushed a budget past the warning threshold
+  const warnedBudgets = new Set<string>();
+  await emitBudgetWarnings(emit, userId, warnedBudgets);
+
+  // Wait for a free process slot; null means the run was cancelled while queued
+  const slot = await acquireProcessSlot({
+    ticketId: run.id,
+    userId,
+    onQueued: (position) => {
+      run.status = 'queued';
+      emit('queued', { ...position });
+    },
+  });
+
+  if (!slot || cancelRequested.has(run.id)) {
+    slot?.release();
+    await finishCancelledRun(run, emit, conversation, state);
+    return;
+  }
+
+  // The budget was checked when the run was requested, but the runs it
+  // waited behind may have used it up since
+  if (run.status === 'queued') {
+    let exceeded: BudgetCheck | null;
+    try {
+      exceeded = getExceededBudget(await getBudgetStatus(userId));
+    } catch (dbError) {
+      slot.release();
+      throw dbError;
+    }
+
+    if (exceeded) {
+      slot.release();
+      logInfo('run-manager', `Budget exceeded for ${userId} while run ${run.id} was queued`);
+      run.status = 'failed';
+      run.error = `${describeBudgetCheck(exceeded)}. Budget exceeded.`;
+      emit('error', { message: run.error, budget: exceeded });
+      return;
+    }
+  }
+  run.status = 'running';
+
+  const callbacks = createStreamingCallbacks(emit, run.id, conversation, state);
+
+  // Pause on permission prompts and ask the phone, so the same run can continue.
+  // Plan mode never edits, so the only prompt would be for ExitPlanMode itself.
+  const permissionToken = config.claudeLivePermissions && conversation.permissionMode !== 'plan'
+    ? registerPermissionContext({
+      conversationId: conversation.id,
+      onRequest: (request) => {
+        emit('permission_request', { ...request });
+        sendPermissionRequestNotification(userId, {
+          conversationId: conversation.id,
+          requestId: request.requestId,
+          toolName: request.toolName,
+        });
+      },
+      onResolved: (request, decision) => {
+        emit('permission_resolved', { requestId: request.requestId, behavior: decision.behavior });
+      },
+    })
+    : null;
+
+  // A conversation with its own server selection gets only those servers
+  let mcpConfigFile: string | null = null;
+
+  try {
+    await createRunRecord({
+      id: run.id,
+      conversationId: conversation.id,
+      userId,
+      resumeSessionId: conversation.claudeSessionId,
+    });
+
+    const toolRules = await getApplicableTools(userId, conversation.id, getWorkDir(conversation.workDir));
+
+    if (conversation.mcpServers) {
+      mcpConfigFile = writeMcpConfigFile(run.id, getWorkDir(conversation.workDir), conversation.mcpServers);
+    }
+    const mcpConfigs = [
+      ...(mcpConfigFile ? [mcpConfigFile] : []),
+      ...(permissionToken ? [getPermissionMcpConfig(permissionToken)] : []),
+    ];
+
+    // A cancel since the slot was granted found neither a queue entry nor a
+    // process to kill, so it is honored here (the run is then finished as cancelled)
+    if (!cancelRequested.has(run.id)) {
+      await runClaudeStreaming(
+        message,
+        conversation.id,
+        conversation.claudeSessionId,
+        callbacks,
+        {
+          workDir: conversation.workDir,
+          forkSession: conversation.forkSessionPending,
+          resumeSessionAt: conversation.resumeSessionAt,
+          allowedTools,
+          toolRules,
+          extendedThinking: conversation.extendedThinking,
+          model: conversation.model,
+          permissionMode: conversation.permissionMode,
+          attachmentDir: getExistingAttachmentDir(conversation.id),
+          mcpConfigs,
+          strictMcpConfig: mcpConfigFile !== null,
+          ...(permissionToken && {
+            permissionPromptTool: PERMISSION_PROMPT_TOOL,
+          }),
+        }
+      );
+    }
+  } finally {
+    slot.release();
+    if (permissionToken) {
+      unregisterPermissionContext(permissionToken);
+    }
+    if (mcpConfigFile) {
+      removeMcpConfigFile(mcpConfigFile);
+    }
+  }
+
+  // Where the run left the CLI session, so a later edit or fork can rewind to it
+  if (state.lastEntryUuid) {
+    try {
+      await updateRunLastEntry(run.id, state.lastEntryUuid);
+    } catch (dbError) {
+      logError('run-manager', `Failed to record run transcript entry: ${dbError}`);
+    }
+  }
+
+  // Record spend for every run that reported it, whatever its outcome
+  if (state.usage) {
+    try {
+      await recordRunUsage({ runId: run.id, conversationId: conversation.id, userId, usage: state.usage });
+      await emitBudgetWarnings(emit, userId, warnedBudgets);
+    } catch (dbError) {
+      logError('run-manager', `Failed to record usage: ${dbError}`);
+    }
+  }
+
+  // A run that completed before the cancel landed is persisted normally
+  if (cancelRequested.has(run.id) && !state.completed) {
+    await finishCancelledRun(run, emit, conversation, state);
+    return;
+  }
+
+  // On error, keep what was produced but skip the title and notification
+  if (state.result.error) {
+    run.status = 'failed';
+    run.error = state.result.error;
+    try {
+      await storeSessionId(conversation, state);
+      await storeRemainingOutput(run.id, conversation.id, state);
+    } catch (dbError) {
+      logError('run-manager', `Failed to store partial response: ${dbError}`);
+    }
+    return;
+  }
+
+  let segments: Segment[];
+  try {
+    segments = await persistStreamResult(run.id, conversation, state);
+    run.status = 'completed';
+  } catch (dbError) {
+    logError('run-manager', `Failed to store response: ${dbError}`);
+    run.status = 'failed';
+    run.error = 'Failed to store response';
+    emit('error', { message: 'Failed to store response' });
+    return;
+  }
+
+  // The client already has the terminal event, so the conversation takes
+  // its next message while the title is generated
+  releaseConversation(run);
+
+  const deniedPermissions = (state.result.permissionDenials?.length ?? 0) > 0;
+  if (!deniedPermissions && segments.length > 0) {
+    await announceReply(emit, conversation, userId, message, segments, options.autoTag ?? false);
+  }
+}
+
+/**
+ * Emit a `budget_warning` for each budget at or above the warning threshold
+ * that hasn't been announced in this run yet
+ */
+async function emitBudgetWarnings(emit: EmitEvent, userId: string, warned: Set<string>): Promise<void> {
+  let warnings: BudgetCheck[];
+  try {
+    warnings = getBudgetWarnings(await getBudgetStatus(userId));
+  } catch (dbError) {
+    logError('run-manager', `Failed to check budget: ${dbError}`);
+    return;
+  }
+
+  for (const warning of warnings) {
+    const key = `${warning.period}:${warning.metric}`;
+    if (!warned.has(key)) {
+      warned.add(key);
+      emit('budget_warning', { ...warning });
+    }
+  }
+}
+
+/**
+ * Store a cancelled run's partial output and emit its terminal `cancelled` event
+ */
+async function finishCancelledRun(
+  run: Run,
+  emit: EmitEvent,
+  conversation: Conversation,
+  state: StreamingState
+): Promise<void> {
+  const reason = cancelRequested.get(run.id) ?? 'user';
+  run.status = 'cancelled';
+  try {
+    await persistCancelledResult(run.id, conversation, state, reason);
+  } catch (dbError) {
+    logError('run-manager', `Failed to store cancelled response: ${dbError}`);
+  }
+  emit('cancelled', { conversationId: conversation.id, reason });
+}
+
+/**
+ * Stop treating a run as its conversation's active one
+ */
+function releaseConversation(run: Run): void {
+  if (activeRunByConversation.get(run.conversationId) === run.id) {
+    activeRunByConversation.delete(run.conversationId);
+  }
+}
+
+function finishRun(run: Run): void {
+  run.finishedAt = new Date().toISOString();
+  if (run.status !== 'running' && run.status !== 'queued') {
+    finishRunRecord(run.id, run.status, run.error).catch((dbError) => {
+      logError('run-manager', `Failed to update run record: ${dbError}`);
+    });
+  }
+  cancelRequested.delete(run.id);
+  runCompletions.delete(run.id);
+  releaseConversation(run);
+  closeStreamBuffer(run.id);
+  logInfo('run-manager', `Run ${run.id} finished with status ${run.status}`);
+
+  const expiryTimer = setTimeout(() => {
+    runs.delete(run.id);
+  }, RUN_RETENTION_MS);
+
+  // Allow process to exit without waiting for run expiry
+  if (typeof expiryTimer.unref === 'function') {
+    expiryTimer.unref();
+  }
+}
+
+/**
+ * Start a Claude run in the background.
+ * The run owns the subprocess, persistence and push notification, so it always
+ * finishes even if no client is attached. Events are published to the stream
+ * buffer keyed by the run ID.
+ */
+export function startRun(options: StartRunOptions): Run {
+  const run: Run = {
+    id: crypto.randomUUID(),
+    conversationId: options.conversation.id,
+    userId: options.userId,
+    status: 'running',
+    error: null,
+    startedAt: new Date().toISOString(),
+    finishedAt: null,
+  };
+
+  runs.set(run.id, run);
+  activeRunByConversation.set(run.conversationId, run.id);
+  openStreamBuffer(run.id, run.conversationId);
+  logInfo('run-manager', `Starting run ${run.id} for conversation ${run.conversationId}`);
+
+  const completion = executeRun(run, options)
+    .catch((error) => {
+      logError('run-manager', `Run ${run.id} failed: ${error}`);
+      run.status = 'failed';
+      run.error = error instanceof Error ? error.message : String(error);
+      appendStreamEvent(run.id, 'error', { message: 'Run failed unexpectedly' });
+    })
+    .finally(() => finishRun(run));
+  runCompletions.set(run.id, completion);
+
+  return run;
+}
+
+/**
+ * Get a run by ID (only runs still held in memory)
+ */
+export function getRun(runId: string): Run | null {
+  return runs.get(runId) ?? null;
+}
+
+/**
+ * The conversation's in-flight run, if any
+ */
+export function getActiveRun(conversationId: string): Run | null {
+  const runId = activeRunByConversation.get(conversationId);
+  return runId ? runs.get(runId) ?? null : null;
+}
+
+/**
+ * Cancel the active run of a conversation.
+ * Removes it from the process queue or kills the subprocess; the run then
+ * persists its partial output and emits a terminal `cancelled` event.
+ * Returns the run, or null if nothing was running.
+ */
+export function cancelRun(conversationId: string, reason: CancelReason = 'user'): Run | null {
+  const runId = activeRunByConversation.get(conversationId);
+  const run = runId ? runs.get(runId) : undefined;
+  if (!run || (run.status !== 'running' && run.status !== 'queued') || cancelRequested.has(run.id)) {
+    return null;
+  }
+
+  logInfo('run-manager', `Cancelling run ${run.id} for conversation ${conversationId}`);
+  cancelRequested.set(run.id, reason);
+  if (!leaveProcessQueue(run.id)) {
+    cancelStream(conversationId);
+  }
+  return run;
+}
+
+/**
+ * Whether new runs may be started (false once shutdown has begun)
+ */
+export function isAcceptingRuns(): boolean {
+  return acceptingRuns;
+}
+
+/**
+ * Wait for a set of run completions, giving up after `timeoutMs`.
+ * Returns true if all of them settled in time.
+ */
+async function waitForRuns(completions: Promise<void>[], timeoutMs: number): Promise<boolean> {
+  if (completions.length === 0) {
+    return true;
+  }
+
+  let timeoutId: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<false>((resolve) => {
+    timeoutId = setTimeout(() => resolve(false), timeoutMs);
+  });
+
+  const settled = await Promise.race([Promise.all(completions).then(() => true), timeout]);
+  clearTimeout(timeoutId);
+  return settled;
+}
+
+/**
+ * Drain active runs for shutdown.
+ * Stops accepting new runs and tells attached clients via `server_shutdown`.
+ * Queued runs are cancelled right away; running ones get up to `drainMs` to
+ * finish and are then cancelled with their partial output persisted.
+ */
+export async function drainRuns(drainMs: number): Promise<void> {
+  acceptingRuns = false;
+
+  const activeRuns = [...runs.values()].filter(
+    (run) => run.status === 'running' || run.status === 'queued'
+  );
+  if (activeRuns.length === 0) {
+    return;
+  }
+
+  logInfo('run-manager', `Draining ${activeRuns.length} active run(s) for up to ${drainMs}ms`);
+  for (const run of activeRuns) {
+    appendStreamEvent(run.id, 'server_shutdown', { conversationId: run.conversationId, drainMs });
+    if (run.status === 'queued') {
+      cancelRun(run.conversationId, 'shutdown');
+    }
+  }
+
+  const drained = await waitForRuns([...runCompletions.values()], drainMs);
+  if (drained) {
+    logInfo('run-manager', 'All runs finished during drain');
+    return;
+  }
+
+  const remaining = [...runs.values()].filter(
+    (run) => run.status === 'running' || run.status === 'queued'
+  );
+  logInfo('run-manager', `Cancelling ${remaining.length} run(s) still active after drain`);
+  for (const run of remaining) {
+    cancelRun(run.conversationId, 'shutdown');
+  }
+
+  // Give cancelled runs a moment to persist their partial output
+  if (!(await waitForRuns([...runCompletions.values()], CANCEL_PERSIST_TIMEOUT_MS))) {
+    logError('run-manager', 'Some runs did not finish persisting before shutdown');
+  }
+
+  // Let attached SSE clients receive the final `cancelled` events before the process exits
+  await new Promise((resolve) => setTimeout(resolve, SSE_FLUSH_DELAY_MS));
+}
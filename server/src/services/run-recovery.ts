@@ -0,0 +1,84 @@
+import { config } from '../config';
+import { countRunMessages, createMessage, updateClaudeSessionId } from '../db/conversations';
+import { finishRunRecord, getUnfinishedRuns, updateRunLastEntry, type RunRecord } from '../db/runs';
+import { getAssistantTextSegments, readTranscript } from './transcript';
+import { logError, logInfo } from './logger';
+
+/**
+ * Restore assistant text the run produced but never stored, from the CLI
+ * session transcript. Returns the number of messages added.
+ */
+async function reconcileFromTranscript(record: RunRecord): Promise<number> {
+  if (!record.claudeSessionId) {
+    return 0;
+  }
+
+  const entries = readTranscript(record.claudeSessionId);
+  if (!entries) {
+    logInfo('run-recovery', `No transcript for session ${record.claudeSessionId}`);
+    return 0;
+  }
+
+  // Where the run left the session, for later edits and forks
+  const lastEntry = entries.findLast((entry) =>
+    entry.uuid && !entry.isSidechain && (entry.type === 'user' || entry.type === 'assistant')
+  );
+  if (lastEntry?.uuid) {
+    await updateRunLastEntry(record.id, lastEntry.uuid);
+  }
+
+  // started_at is a UTC SQLite timestamp with milliseconds
+  const startedAt = new Date(`${record.startedAt.replace(' ', 'T')}Z`);
+  const segments = getAssistantTextSegments(entries, startedAt);
+  const stored = await countRunMessages(record.id, 'assistant');
+
+  const missing = segments.slice(stored);
+  for (const content of missing) {
+    await createMessage({
+      conversationId: record.conversationId,
+      role: 'assistant',
+      content,
+      parts: [{ type: 'text', content }],
+      runId: record.id,
+    });
+  }
+
+  return missing.length;
+}
+
+/**
+ * Find runs that were still going when the server last stopped (a crash or
+ * kill, since graceful shutdown finishes every run) and mark them interrupted.
+ * Must run at startup, before any new run starts.
+ */
+export async function recoverInterruptedRuns(): Promise<void> {
+  const unfinished = await getUnfinishedRuns();
+  if (unfinished.length === 0) {
+    return;
+  }
+
+  logInfo('run-recovery', `Recovering ${unfinished.length} interrupted run(s)`);
+
+  for (const record of unfinished) {
+    try {
+      const recovered = config.recoverFromTranscript ? await reconcileFromTranscript(record) : 0;
+
+      await createMessage({
+        conversationId: record.conversationId,
+        role: 'system',
+        content: '✗ Interrupted by server restart',
+        runId: record.id,
+      });
+
+      // The CLI session holds everything up to the crash, so the next message continues it
+      if (record.claudeSessionId) {
+        await updateClaudeSessionId(record.conversationId, record.claudeSessionId);
+      }
+
+      await finishRunRecord(record.id, 'interrupted', 'Server stopped before the run finished');
+      logInfo('run-recovery', `Run ${record.id} marked interrupted (${recovered} message(s) restored from transcript)`);
+    } catch (error) {
+      logError('run-recovery', `Failed to recover run ${record.id}: ${error}`);
+    }
+  }
+}
@@ -0,0 +1,292 @@
+import { existsSync, readdirSync, readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import {
+  createConversation,
+  deleteConversation,
+  importMessages,
+  updateClaudeSessionId,
+  updateConversationTitle,
+  type ImportedMessageInput,
+  type MessagePartInput,
+} from '../db/conversations';
+import { getKnownSessions, recordImportedSession } from '../db/imported-sessions';
+import { getClaudeConfigDir, resolveWorkDir } from './claude-config';
+import { getToolResultText } from './claude-stream';
+import { findTranscriptPath, readTranscript, type TranscriptEntry } from './transcript';
+import { generateTitle } from './title-generator';
+import { logDebug, logError, logInfo } from './logger';
+import { truncateToolOutput } from '../utils/tool-output';
+
+/**
+ * One entry of a project's sessions-index.json, as written by the Claude CLI
+ */
+interface SessionIndexEntry {
+  sessionId: string;
+  fullPath: string;
+  firstPrompt?: string;
+  messageCount?: number;
+  created?: string;
+  modified?: string;
+  gitBranch?: string;
+  projectPath?: string;
+  isSidechain?: boolean;
+}
+
+interface SessionIndex {
+  version: number;
+  entries: SessionIndexEntry[];
+  originalPath?: string;
+}
+
+export interface AvailableSession {
+  sessionId: string;
+  path: string;
+  firstPrompt: string;
+  messageCount: number;
+  created: string | null;
+  modified: string | null;
+  gitBranch: string | null;
+  projectPath: string | null;
+  // Set when the user already has a conversation for this session
+  conversationId: string | null;
+}
+
+export type SessionImportResult =
+  | { imported: true; conversationId: string; messageCount: number; title: string | null }
+  | { imported: false; error: string; status: 400 | 404 | 409; conversationId?: string };
+
+/**
+ * Read every project's sessions-index.json. Projects without a readable index are skipped.
+ */
+function readSessionIndexes(): SessionIndexEntry[] {
+  const projectsDir = join(getClaudeConfigDir(), 'projects');
+  if (!existsSync(projectsDir)) {
+    return [];
+  }
+
+  const entries: SessionIndexEntry[] = [];
+  for (const project of readdirSync(projectsDir)) {
+    const indexPath = join(projectsDir, project, 'sessions-index.json');
+    if (!existsSync(indexPath)) continue;
+
+    try {
+      const index = JSON.parse(readFileSync(indexPath, 'utf8')) as SessionIndex;
+      for (const entry of index.entries ?? []) {
+        entries.push({ ...entry, projectPath: entry.projectPath ?? index.originalPath });
+      }
+    } catch (error) {
+      logDebug('session-importer', `Skipping unreadable index ${indexPath}: ${error}`);
+    }
+  }
+
+  return entries;
+}
+
+/**
+ * Sessions on this machine that can be imported, most recently modified first
+ */
+export async function listAvailableSessions(userId: string): Promise<AvailableSession[]> {
+  const known = await getKnownSessions(userId);
+
+  return readSessionIndexes()
+    .filter((entry) => !entry.isSidechain && existsSync(entry.fullPath))
+    .map((entry) => ({
+      sessionId: entry.sessionId,
+      path: entry.fullPath,
+      firstPrompt: entry.firstPrompt ?? '',
+      messageCount: entry.messageCount ?? 0,
+      created: entry.created ?? null,
+      modified: entry.modified ?? null,
+      gitBranch: entry.gitBranch || null,
+      projectPath: entry.projectPath ?? null,
+      conversationId: known.get(entry.sessionId) ?? null,
+    }))
+    .sort((a, b) => (b.modified ?? '').localeCompare(a.modified ?? ''));
+}
+
+/**
+ * Turn local slash command echoes into readable text: the command itself for
+ * the user, its output for the assistant. Returns null for other user text.
+ */
+function parseLocalCommand(text: string): { command?: string; output?: string } | null {
+  const command = text.match(/<command-name>([\s\S]*?)<\/command-name>/);
+  if (command) {
+    return { command: command[1]?.trim() };
+  }
+  const output = text.match(/<local-command-stdout>([\s\S]*?)<\/local-command-stdout>/);
+  if (output) {
+    return { output: output[1]?.trim() };
+  }
+  return null;
+}
+
+/**
+ * Convert transcript entries into messages, split the way live runs split them:
+ * each user prompt is a message, and assistant text becomes a new message
+ * whenever a tool call follows it. Tool calls, tool results and thinking
+ * become parts of the assistant message they belong to.
+ */
+export function parseSessionMessages(entries: TranscriptEntry[]): ImportedMessageInput[] {
+  const messages: ImportedMessageInput[] = [];
+  let text = '';
+  let parts: MessagePartInput[] = [];
+  let startedAt: Date | null = null;
+  // Index of the last assistant message of the current turn, for trailing tool parts
+  let turnAssistantIndex: number | null = null;
+
+  const flushSegment = () => {
+    if (text.trim()) {
+      messages.push({ role: 'assistant', content: text, parts, createdAt: startedAt ?? new Date() });
+      turnAssistantIndex = messages.length - 1;
+    } else if (parts.length > 0) {
+      const previous = turnAssistantIndex !== null ? messages[turnAssistantIndex] : undefined;
+      if (previous) {
+        previous.parts = [...(previous.parts ?? []), ...parts];
+      } else {
+        messages.push({ role: 'assistant', content: '', parts, createdAt: startedAt ?? new Date() });
+        turnAssistantIndex = messages.length - 1;
+      }
+    }
+    text = '';
+    parts = [];
+    startedAt = null;
+  };
+
+  const appendText = (type: 'text' | 'command_output', value: string) => {
+    const last = parts[parts.length - 1];
+    if (last && last.type === type) {
+      last.content = (last.content ?? '') + value;
+    } else {
+      parts.push({ type, content: value });
+    }
+    text += value;
+  };
+
+  for (const entry of entries) {
+    if (entry.isSidechain || entry.isMeta || !entry.message || !entry.timestamp) continue;
+    const timestamp = new Date(entry.timestamp);
+    const content = entry.message.content;
+
+    if (entry.type === 'user') {
+      const blocks = typeof content === 'string' ? [{ type: 'text', text: content }] : content ?? [];
+      const prompt: string[] = [];
+
+      for (const block of blocks) {
+        if (block.type === 'tool_result' && block.tool_use_id) {
+          startedAt ??= timestamp;
+          parts.push({
+            type: 'tool_result',
+            toolUseId: block.tool_use_id,
+            content: truncateToolOutput(getToolResultText(block.content)),
+            isError: block.is_error === true,
+          });
+        } else if (block.type === 'text' && block.text) {
+          const localCommand = parseLocalCommand(block.text);
+          if (localCommand?.output) {
+            startedAt ??= timestamp;
+            appendText('command_output', localCommand.output);
+          } else if (localCommand?.command) {
+            prompt.push(localCommand.command);
+          } else if (!localCommand) {
+            prompt.push(block.text);
+          }
+        } else if (block.type === 'image') {
+          prompt.push('[image]');
+        }
+      }
+
+      if (prompt.length > 0) {
+        flushSegment();
+        turnAssistantIndex = null;
+        messages.push({ role: 'user', content: prompt.join('\n'), createdAt: timestamp });
+      }
+    } else if (entry.type === 'assistant' && Array.isArray(content)) {
+      for (const block of content) {
+        startedAt ??= timestamp;
+        if (block.type === 'text' && block.text) {
+          appendText('text', block.text);
+        } else if (block.type === 'thinking' && block.thinking) {
+          parts.push({ type: 'thinking', content: block.thinking });
+        } else if (block.type === 'tool_use' && block.name) {
+          // A tool call ends the current text segment
+          if (text.trim()) {
+            flushSegment();
+            startedAt = timestamp;
+          }
+          parts.push({
+            type: 'tool_use',
+            toolUseId: block.id ?? null,
+            toolName: block.name,
+            input: block.input ?? null,
+          });
+        }
+      }
+    }
+  }
+
+  flushSegment();
+  return messages;
+}
+
+/**
+ * Import a local CLI session as a new conversation of the user. The
+ * conversation keeps the session ID, so the next message resumes it with
+ * --resume, and runs in the session's project directory.
+ */
+export async function importSession(userId: string, sessionId: string): Promise<SessionImportResult> {
+  const existing = (await getKnownSessions(userId)).get(sessionId);
+  if (existing) {
+    return { imported: false, error: 'Session already imported', status: 409, conversationId: existing };
+  }
+
+  const sessionPath = findTranscriptPath(sessionId);
+  const entries = sessionPath ? readTranscript(sessionId) : null;
+  if (!sessionPath || !entries) {
+    return { imported: false, error: 'Session not found', status: 404 };
+  }
+
+  const messages = parseSessionMessages(entries);
+  if (messages.length === 0) {
+    return { imported: false, error: 'Session has no messages', status: 400 };
+  }
+
+  // The CLI only resumes a session from the directory it was started in
+  const indexEntry = readSessionIndexes().find((entry) => entry.sessionId === sessionId);
+  const projectPath = indexEntry?.projectPath ?? entries.find((entry) => entry.cwd)?.cwd;
+  const workDir = projectPath ? resolveWorkDir(projectPath) : null;
+  if (projectPath && !workDir) {
+    return { imported: false, error: 'Session directory is outside the allowed roots', status: 400 };
+  }
+
+  const conversation = await createConversation(userId, {}, workDir);
+  try {
+    await importMessages(conversation.id, messages);
+    await updateClaudeSessionId(conversation.id, sessionId);
+    await recordImportedSession({
+      conversationId: conversation.id,
+      sessionId,
+      sessionPath,
+      messageCount: messages.length,
+      originalCreatedAt: indexEntry?.created ?? entries.find((entry) => entry.timestamp)?.timestamp ?? null,
+    });
+  } catch (error) {
+    // All or nothing: don't leave a half-imported conversation behind
+    await deleteConversation(conversation.id);
+    throw error;
+  }
+
+  logInfo('session-importer', `Imported session ${sessionId} as ${conversation.id} (${messages.length} messages)`);
+
+  let title: string | null = null;
+  try {
+    const titleResult = await generateTitle(userId, null, messages.slice(0, 4));
+    if (titleResult.title) {
+      await updateConversationTitle(conversation.id, titleResult.title);
+      title = titleResult.title;
+    }
+  } catch (titleError) {
+    logError('session-importer', `Title generation failed: ${titleError}`);
+  }
+
+  return { imported: true, conversationId: conversation.id, messageCount: messages.length, title };
+}
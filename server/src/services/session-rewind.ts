@@ -0,0 +1,88 @@
+import {
+  getAllMessages,
+  getConversation,
+  replaceLastTurn,
+  type Conversation,
+  type Message,
+} from '../db/conversations';
+import { getRunRecord } from '../db/runs';
+import { logInfo } from './logger';
+
+/**
+ * A point in a CLI session: resuming `claudeSessionId` at `resumeSessionAt`
+ * drops every transcript entry after it
+ */
+export interface SessionPoint {
+  claudeSessionId: string;
+  resumeSessionAt: string;
+}
+
+export type TurnReplaceResult =
+  | { replaced: true; message: Message; conversation: Conversation }
+  | { replaced: false; error: string; status: 404 | 409 };
+
+/**
+ * Where the CLI session stood after the given messages: the last transcript
+ * entry of the last run that wrote one of them. Null when none was written
+ * by a run, or the run didn't record its last entry.
+ */
+export async function getSessionPoint(messages: Message[]): Promise<SessionPoint | null> {
+  const lastRunId = messages.findLast((message) => message.runId)?.runId;
+  if (!lastRunId) {
+    return null;
+  }
+
+  const run = await getRunRecord(lastRunId);
+  if (!run?.claudeSessionId || !run.lastEntryUuid) {
+    return null;
+  }
+
+  return { claudeSessionId: run.claudeSessionId, resumeSessionAt: run.lastEntryUuid };
+}
+
+/**
+ * Replace the last turn of a conversation, starting from its user message,
+ * with `content` (an edit) or the same message again (a regenerate). The old
+ * turn is kept as alternates, and the CLI session is rewound to the end of
+ * the previous turn so Claude's context matches the visible history.
+ */
+export async function replaceTurn(
+  conversation: Conversation,
+  messageId: string,
+  content?: string
+): Promise<TurnReplaceResult> {
+  const messages = await getAllMessages(conversation.id);
+  const index = messages.findIndex((message) => message.id === messageId);
+  const userMessage = messages[index];
+  if (!userMessage) {
+    return { replaced: false, error: 'Message not found', status: 404 };
+  }
+
+  const lastUserIndex = messages.findLastIndex((message) => message.role === 'user');
+  if (index !== lastUserIndex) {
+    return { replaced: false, error: 'Only the last user message can be edited or regenerated', status: 409 };
+  }
+
+  const previous = messages.slice(0, index);
+  const point = await getSessionPoint(previous);
+  if (!point && previous.some((message) => message.role === 'assistant')) {
+    // Replies from before runs recorded their transcript entry can't be rewound to
+    return { replaced: false, error: 'The session cannot be rewound to before this message', status: 409 };
+  }
+
+  // Without a previous reply, the turn starts a fresh session
+  const message = await replaceLastTurn(userMessage, {
+    content: content ?? userMessage.content,
+    claudeSessionId: point?.claudeSessionId ?? null,
+    resumeSessionAt: point?.resumeSessionAt ?? null,
+  });
+
+  const updated = await getConversation(conversation.id);
+  if (!updated) {
+    return { replaced: false, error: 'Conversation not found', status: 404 };
+  }
+
+  logInfo('session-rewind', `Replaced turn ${userMessage.id} of ${conversation.id} with ${message.id}${point ? ` at ${point.resumeSessionAt}` : ''}`);
+
+  return { replaced: true, message, conversation: updated };
+}
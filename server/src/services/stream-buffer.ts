@@ -0,0 +1,156 @@
+import { logDebug } from './logger';
+
+// How long a finished stream's events stay available for reconnecting clients
+const BUFFER_RETENTION_MS = 5 * 60 * 1000;
+
+export interface BufferedEvent {
+  id: number;
+  type: string;
+  data: Record<string, unknown>;
+}
+
+/**
+ * Listener for buffered stream events.
+ * Called with `null` once the stream has finished and no more events will follow.
+ */
+export type StreamListener = (event: BufferedEvent | null) => void;
+
+interface StreamBuffer {
+  streamId: string;
+  conversationId: string;
+  events: BufferedEvent[];
+  finished: boolean;
+  listeners: Set<StreamListener>;
+  expiryTimer: ReturnType<typeof setTimeout> | null;
+}
+
+const buffers = new Map<string, StreamBuffer>();
+const latestStreamByConversation = new Map<string, string>();
+
+// Event IDs are global so they keep increasing across runs of the same conversation.
+// A client's Last-Event-ID from an earlier run therefore never hides events of a newer one.
+// They start at the boot time in microseconds, so they keep increasing across restarts too
+// (a boot would have to emit over 1000 events per millisecond of uptime to overlap the next).
+let nextEventId = Date.now() * 1000;
+
+/**
+ * Open a new event buffer for a stream.
+ * Becomes the buffer that reconnecting clients of the conversation attach to.
+ */
+export function openStreamBuffer(streamId: string, conversationId: string): void {
+  buffers.set(streamId, {
+    streamId,
+    conversationId,
+    events: [],
+    finished: false,
+    listeners: new Set(),
+    expiryTimer: null,
+  });
+  latestStreamByConversation.set(conversationId, streamId);
+  logDebug('stream-buffer', `Opened buffer ${streamId} for ${conversationId}`);
+}
+
+/**
+ * Append an event to a stream buffer and deliver it to attached listeners.
+ * Returns null if the buffer doesn't exist or has already finished.
+ */
+export function appendStreamEvent(
+  streamId: string,
+  type: string,
+  data: Record<string, unknown> = {}
+): BufferedEvent | null {
+  const buffer = buffers.get(streamId);
+  if (!buffer || buffer.finished) {
+    return null;
+  }
+
+  const event: BufferedEvent = { id: nextEventId++, type, data };
+  buffer.events.push(event);
+
+  for (const listener of buffer.listeners) {
+    listener(event);
+  }
+
+  return event;
+}
+
+/**
+ * Mark a stream as finished. Listeners are notified and detached, and the
+ * buffered events are kept around for a while so late reconnects can still replay them.
+ */
+export function closeStreamBuffer(streamId: string): void {
+  const buffer = buffers.get(streamId);
+  if (!buffer || buffer.finished) {
+    return;
+  }
+
+  buffer.finished = true;
+  for (const listener of buffer.listeners) {
+    listener(null);
+  }
+  buffer.listeners.clear();
+
+  buffer.expiryTimer = setTimeout(() => {
+    buffers.delete(streamId);
+    if (latestStreamByConversation.get(buffer.conversationId) === streamId) {
+      latestStreamByConversation.delete(buffer.conversationId);
+    }
+    logDebug('stream-buffer', `Expired buffer ${streamId}`);
+  }, BUFFER_RETENTION_MS);
+
+  // Allow process to exit without waiting for buffer expiry
+  if (typeof buffer.expiryTimer.unref === 'function') {
+    buffer.expiryTimer.unref();
+  }
+}
+
+/**
+ * Get the ID of the most recent stream for a conversation, if still buffered
+ */
+export function getLatestStreamId(conversationId: string): string | null {
+  return latestStreamByConversation.get(conversationId) ?? null;
+}
+
+/**
+ * Subscribe to a stream, replaying every buffered event with an ID greater than
+ * `lastEventId` before delivering live events.
+ * Returns an unsubscribe function, or null if the stream doesn't exist.
+ */
+export function subscribeToStream(
+  streamId: string,
+  lastEventId: number,
+  listener: StreamListener
+): (() => void) | null {
+  const buffer = buffers.get(streamId);
+  if (!buffer) {
+    return null;
+  }
+
+  for (const event of buffer.events) {
+    if (event.id > lastEventId) {
+      listener(event);
+    }
+  }
+
+  if (buffer.finished) {
+    listener(null);
+    return () => {};
+  }
+
+  buffer.listeners.add(listener);
+  return () => {
+    buffer.listeners.delete(listener);
+  };
+}
+
+/**
+ * Get buffered events with an ID greater than `lastEventId`.
+ * Returns null if the stream doesn't exist.
+ */
+export function getStreamEvents(streamId: string, lastEventId: number): BufferedEvent[] | null {
+  const buffer = buffers.get(streamId);
+  if (!buffer) {
+    return null;
+  }
+  return buffer.events.filter((event) => event.id > lastEventId);
+}
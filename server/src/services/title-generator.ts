@@ -1,23 +1,45 @@
 import { getClaudePath, getClaudeEnv } from './claude-config';
 import { logInfo, logError, logDebug } from './logger';
+import { tryAcquireProcessSlot } from './process-pool';
 
 const TITLE_TIMEOUT_MS = 15_000; // 15 seconds max for title generation
+const MAX_SUGGESTED_TAGS = 2;
 
 interface TitleResult {
   title: string | null;
+  // Suggested tags, always from the names that were offered
+  tags: string[];
   error?: string;
 }
 
+/**
+ * Pick the tags out of a `TAGS: a | b` line, keeping only offered names
+ * (in their original case)
+ */
+function parseTagLine(line: string, availableTags: string[]): string[] {
+  const byName = new Map(availableTags.map((tag) => [tag.toLowerCase(), tag]));
+  const chosen = line
+    .replace(/^TAGS:/i, '')
+    .split('|')
+    .map((name) => byName.get(name.trim().replace(/^["']|["']$/g, '').toLowerCase()))
+    .filter((tag): tag is string => tag !== undefined);
+
+  return [...new Set(chosen)].slice(0, MAX_SUGGESTED_TAGS);
+}
+
 /**
  * Generate a conversation title based on message history.
- * Uses a quick Claude call with minimal context.
+ * Uses a quick Claude call with minimal context. With `availableTags`, the
+ * same call also suggests one or two of them for the conversation.
  */
 export async function generateTitle(
+  userId: string,
   currentTitle: string | null,
-  recentMessages: Array<{ role: string; content: string }>
+  recentMessages: Array<{ role: string; content: string }>,
+  availableTags: string[] = []
 ): Promise<TitleResult> {
   if (recentMessages.length === 0) {
-    return { title: null, error: 'No messages to generate title from' };
+    return { title: null, tags: [], error: 'No messages to generate title from' };
   }
 
   // Build context from recent messages (last 4 max to keep it quick)
@@ -26,6 +48,14 @@ export async function generateTitle(
     .map((m) => `${m.role}: ${m.content.slice(0, 200)}`)
     .join('\n');
 
+  const answer = currentTitle ? 'the new title or KEEP' : 'the title';
+  const responseFormat = availableTags.length > 0
+    ? `Respond with ${answer} on the first line. On a second line, write TAGS: followed by one or two of these tags that fit the conversation, separated by " | ", or TAGS: none if none fit:
+${availableTags.map((tag) => `- ${tag}`).join('\n')}
+
+Respond with nothing else.`
+    : `Respond with ONLY ${answer}, nothing else.`;
+
   const prompt = currentTitle
     ? `Current title: "${currentTitle}"
 
@@ -34,11 +64,19 @@ ${context}
 
 If the topic has significantly shifted, provide a new short title (3-6 words) that captures the current topic. If the topic is the same, respond with just: KEEP
 
-Respond with ONLY the new title or KEEP, nothing else.`
+${responseFormat}`
     : `Conversation:
 ${context}
 
-Provide a short title (3-6 words) that captures what this conversation is about. Respond with ONLY the title, nothing else.`;
+Provide a short title (3-6 words) that captures what this conversation is about. ${responseFormat}`;
+
+  // Title calls count against CLAUDE_MAX_CONCURRENT too, but never wait for a
+  // slot: the title is simply generated after a later reply
+  const slot = tryAcquireProcessSlot(userId);
+  if (!slot) {
+    logInfo('title-generator', 'No free process slot, skipping title generation');
+    return { title: null, tags: [], error: 'No free process slot' };
+  }
 
   logInfo('title-generator', `Generating title, current: ${currentTitle}`);
 
@@ -62,14 +100,17 @@ Provide a short title (3-6 words) that captures what this conversation is about.
     if (exitCode !== 0) {
       const stderr = await new Response(proc.stderr).text();
       logError('title-generator', `Process exited with code ${exitCode}: ${stderr}`);
-      return { title: null, error: 'Title generation failed' };
+      return { title: null, tags: [], error: 'Title generation failed' };
     }
 
-    const result = output.trim();
+    const lines = output.trim().split('\n');
+    const tagLine = availableTags.length > 0 ? lines.find((line) => /^TAGS:/i.test(line.trim())) : undefined;
+    const tags = tagLine ? parseTagLine(tagLine.trim(), availableTags) : [];
+    const result = lines.filter((line) => line !== tagLine).join(' ').trim();
 
     if (result === 'KEEP' || result === '') {
       logInfo('title-generator', 'Keeping existing title');
-      return { title: null }; // null means keep existing
+      return { title: null, tags }; // null means keep existing
     }
 
     // Clean up the title (remove quotes if present, limit length)
@@ -78,10 +119,12 @@ Provide a short title (3-6 words) that captures what this conversation is about.
       title = title.slice(0, 57) + '...';
     }
 
-    logInfo('title-generator', `Generated title: ${title}`);
-    return { title };
+    logInfo('title-generator', `Generated title: ${title}${tags.length > 0 ? `, tags: ${tags.join(', ')}` : ''}`);
+    return { title, tags };
   } catch (error) {
     logError('title-generator', `Title generation error: ${error}`);
-    return { title: null, error: String(error) };
+    return { title: null, tags: [], error: String(error) };
+  } finally {
+    slot.release();
   }
 }
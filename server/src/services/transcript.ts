@@ -0,0 +1,113 @@
+import { existsSync, readdirSync, readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { getClaudeConfigDir } from './claude-config';
+import { logDebug } from './logger';
+
+/**
+ * One line of a Claude CLI session transcript
+ * (~/.claude/projects/<project>/<sessionId>.jsonl)
+ */
+export interface TranscriptEntry {
+  type: string;
+  uuid?: string;
+  parentUuid?: string | null;
+  sessionId?: string;
+  timestamp?: string;
+  cwd?: string;
+  // Subagent conversations and CLI-injected context, not part of the visible chat
+  isSidechain?: boolean;
+  isMeta?: boolean;
+  message?: {
+    role?: string;
+    content?: string | TranscriptContentBlock[];
+  };
+}
+
+export interface TranscriptContentBlock {
+  type: string;
+  text?: string;
+  thinking?: string;
+  id?: string;
+  name?: string;
+  input?: unknown;
+  tool_use_id?: string;
+  content?: string | Array<{ type: string; text?: string }>;
+  is_error?: boolean;
+}
+
+/**
+ * Find the transcript file of a session in any project directory
+ */
+export function findTranscriptPath(sessionId: string): string | null {
+  const projectsDir = join(getClaudeConfigDir(), 'projects');
+  if (!existsSync(projectsDir)) {
+    return null;
+  }
+
+  for (const project of readdirSync(projectsDir)) {
+    const path = join(projectsDir, project, `${sessionId}.jsonl`);
+    if (existsSync(path)) {
+      return path;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Read a session transcript. Returns null if the session has no transcript.
+ * Unparseable lines (e.g. a half-written last line after a crash) are skipped.
+ */
+export function readTranscript(sessionId: string): TranscriptEntry[] | null {
+  const path = findTranscriptPath(sessionId);
+  if (!path) {
+    return null;
+  }
+
+  const entries: TranscriptEntry[] = [];
+  for (const line of readFileSync(path, 'utf8').split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      entries.push(JSON.parse(line) as TranscriptEntry);
+    } catch {
+      logDebug('transcript', `Skipping unparseable line in ${path}`);
+    }
+  }
+
+  return entries;
+}
+
+/**
+ * Assistant text written at or after `since`, split into segments the same way
+ * live streaming splits them: a tool call ends the current segment.
+ */
+export function getAssistantTextSegments(entries: TranscriptEntry[], since: Date): string[] {
+  const segments: string[] = [];
+  let current = '';
+
+  for (const entry of entries) {
+    if (entry.type !== 'assistant' || !entry.timestamp || new Date(entry.timestamp) < since) {
+      continue;
+    }
+
+    const content = entry.message?.content;
+    if (!Array.isArray(content)) {
+      continue;
+    }
+
+    for (const block of content) {
+      if (block.type === 'text' && block.text) {
+        current += block.text;
+      } else if (block.type === 'tool_use' && current.trim()) {
+        segments.push(current);
+        current = '';
+      }
+    }
+  }
+
+  if (current.trim()) {
+    segments.push(current);
+  }
+
+  return segments;
+}
@@ -0,0 +1,11 @@
+// Tool output is stored for display, not replay - cap it to keep messages small
+const MAX_TOOL_OUTPUT_LENGTH = 50_000;
+
+/**
+ * Cap tool output before it is stored as a message part
+ */
+export function truncateToolOutput(output: string): string {
+  return output.length > MAX_TOOL_OUTPUT_LENGTH
+    ? `${output.slice(0, MAX_TOOL_OUTPUT_LENGTH)}\n… (truncated)`
+    : output;
+}
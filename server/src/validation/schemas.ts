@@ -1,9 +1,22 @@
 import { z } from 'zod';
+import { config } from '../config';
+import { resolveWorkDir } from '../services/claude-config';
+import { ATTACHMENT_TYPES, MAX_ATTACHMENTS, getBaseMimeType } from '../services/attachments';
+import { decodeSearchCursor } from '../db/search';
+import { CONVERSATION_COLORS } from '../db/conversations';
 
 // Maximum lengths for various fields
 const MAX_MESSAGE_LENGTH = 100_000; // 100KB max message
 const MAX_TOOL_NAME_LENGTH = 100;
 const MAX_TOOLS_COUNT = 50;
+const MAX_PATH_LENGTH = 4096;
+const MAX_LABEL_LENGTH = 100;
+const MAX_SEARCH_QUERY_LENGTH = 200;
+const MAX_TITLE_LENGTH = 200;
+const MAX_TAG_NAME_LENGTH = 50;
+const MAX_CONVERSATION_TAGS = 20;
+const MAX_MCP_SERVER_NAME_LENGTH = 100;
+const MAX_MCP_SERVERS = 50;
 
 // Auth request validation
 export const authRequestSchema = z.object({
@@ -14,18 +27,53 @@ export const authRequestSchema = z.object({
 
 export type AuthRequest = z.infer<typeof authRequestSchema>;
 
+// A working directory (of a new conversation or a directory rule), resolved to its real path
+const workDirSchema = z
+  .string()
+  .max(MAX_PATH_LENGTH)
+  .transform((path, ctx) => {
+    const resolved = resolveWorkDir(path);
+    if (!resolved) {
+      ctx.addIssue({ code: 'custom', message: 'Directory does not exist or is outside the allowed roots' });
+      return z.NEVER;
+    }
+    return resolved;
+  });
+
+// Color of a conversation or tag
+const colorSchema = z.enum(CONVERSATION_COLORS);
+
 // Chat message request validation
 export const chatMessageSchema = z.object({
   message: z
     .string()
     .min(1, 'Message is required')
     .max(MAX_MESSAGE_LENGTH, `Message too long (max ${MAX_MESSAGE_LENGTH} characters)`),
+  // Only applied when creating a conversation
+  workDir: workDirSchema.optional(),
 });
 
 export type ChatMessageRequest = z.infer<typeof chatMessageSchema>;
 
-// Chat stream request validation (with optional allowed tools)
-export const chatStreamSchema = z.object({
+// Model aliases are limited to the ones configured in CLAUDE_MODELS
+const modelSchema = z
+  .string()
+  .refine((model) => config.claudeModels.includes(model), {
+    message: 'Unknown model. See GET /models for available models',
+  });
+
+const permissionModeSchema = z.enum(['default', 'acceptEdits', 'plan']);
+
+const toolRuleScopeSchema = z.enum(['global', 'directory', 'conversation']);
+
+// MCP servers a conversation is limited to, by name (checked against the
+// servers configured for its directory by the route)
+const mcpServersSchema = z
+  .array(z.string().min(1).max(MAX_MCP_SERVER_NAME_LENGTH))
+  .max(MAX_MCP_SERVERS, `Too many MCP servers (max ${MAX_MCP_SERVERS})`);
+
+// Fields of every chat stream request: the message and optional allowed tools
+const streamMessageFields = {
   message: z
     .string()
     .min(1, 'Message is required')
@@ -34,10 +82,96 @@ export const chatStreamSchema = z.object({
     .array(z.string().max(MAX_TOOL_NAME_LENGTH))
     .max(MAX_TOOLS_COUNT)
     .optional(),
+  // Also save allowedTools as "always allow" rules with this scope
+  alwaysAllow: toolRuleScopeSchema.optional(),
+};
+
+// Chat stream request validation for a new conversation, with its settings
+export const chatStreamSchema = z.object({
+  ...streamMessageFields,
+  extendedThinking: z.boolean().optional(),
+  model: modelSchema.optional(),
+  permissionMode: permissionModeSchema.optional(),
+  mcpServers: mcpServersSchema.optional(),
+  workDir: workDirSchema.optional(),
+  // Suggest tags from the user's existing ones after the first reply
+  autoTag: z.boolean().optional(),
 });
 
 export type ChatStreamRequest = z.infer<typeof chatStreamSchema>;
 
+// Chat stream request to an existing conversation. Its settings are changed
+// with PATCH /chat/:id, so they are rejected here instead of being ignored.
+export const conversationStreamSchema = z.strictObject(streamMessageFields);
+
+export type ConversationStreamRequest = z.infer<typeof conversationStreamSchema>;
+
+// Uploaded file: not empty, within the size limit and of an accepted type
+const attachmentFileSchema = z
+  .instanceof(File)
+  .refine((file) => file.size > 0, 'Attachment is empty')
+  .refine(
+    (file) => file.size <= config.attachmentMaxBytes,
+    `Attachment too large (max ${config.attachmentMaxBytes / 1024 / 1024} MB)`
+  )
+  .refine(
+    (file) => Object.hasOwn(ATTACHMENT_TYPES, getBaseMimeType(file.type)),
+    `Unsupported attachment type (allowed: ${Object.keys(ATTACHMENT_TYPES).join(', ')})`
+  );
+
+// Multipart chat stream request: a message with files attached (no settings,
+// as for conversationStreamSchema)
+export const chatUploadSchema = z.strictObject({
+  message: z
+    .string()
+    .min(1, 'Message is required')
+    .max(MAX_MESSAGE_LENGTH, `Message too long (max ${MAX_MESSAGE_LENGTH} characters)`),
+  attachments: z
+    .array(attachmentFileSchema)
+    .min(1, 'At least one attachment is required')
+    .max(MAX_ATTACHMENTS, `Too many attachments (max ${MAX_ATTACHMENTS})`),
+});
+
+export type ChatUploadRequest = z.infer<typeof chatUploadSchema>;
+
+// Conversation update validation (at least one field required)
+export const conversationUpdateSchema = z
+  .object({
+    extendedThinking: z.boolean().nullable().optional(),
+    model: modelSchema.nullable().optional(),
+    permissionMode: permissionModeSchema.nullable().optional(),
+    // null goes back to every server the CLI is configured with
+    mcpServers: mcpServersSchema.nullable().optional(),
+    // A title locks it against auto-titling; null unlocks it
+    title: z
+      .string()
+      .trim()
+      .min(1, 'Title cannot be empty')
+      .max(MAX_TITLE_LENGTH, `Title too long (max ${MAX_TITLE_LENGTH} characters)`)
+      .nullable()
+      .optional(),
+    pinned: z.boolean().optional(),
+    archived: z.boolean().optional(),
+    color: colorSchema.nullable().optional(),
+  })
+  .refine((data) => Object.values(data).some((value) => value !== undefined), {
+    message: 'At least one field to update is required',
+  });
+
+export type ConversationUpdateRequest = z.infer<typeof conversationUpdateSchema>;
+
+// Plan approval: the mode to carry out the plan in, and an optional instruction
+export const planApprovalSchema = z.object({
+  permissionMode: z.enum(['default', 'acceptEdits']).default('default'),
+  message: z
+    .string()
+    .min(1)
+    .max(MAX_MESSAGE_LENGTH, `Message too long (max ${MAX_MESSAGE_LENGTH} characters)`)
+    .optional(),
+});
+
+export type PlanApprovalRequest = z.infer<typeof planApprovalSchema>;
+
 // Permission event request validation
 export const permissionEventSchema = z.object({
   role: z.enum(['user', 'assistant', 'system']).default('system'),
@@ -46,6 +180,116 @@ export const permissionEventSchema = z.object({
 
 export type PermissionEventRequest = z.infer<typeof permissionEventSchema>;
 
+// Live permission prompt decision
+export const permissionDecisionSchema = z.object({
+  decision: z.enum(['allow', 'deny']),
+  message: z.string().max(MAX_MESSAGE_LENGTH).optional(),
+  // Also save an "always allow" rule with this scope (allow only)
+  alwaysAllow: toolRuleScopeSchema.optional(),
+});
+
+export type PermissionDecisionRequest = z.infer<typeof permissionDecisionSchema>;
+
+// "Always allow" tool rule (the scope decides which target field is required)
+export const toolRuleSchema = z
+  .object({
+    tool: z.string().min(1, 'Tool is required').max(MAX_TOOL_NAME_LENGTH),
+    scope: toolRuleScopeSchema,
+    // Resolved like a conversation's workDir, so rules match it exactly
+    directory: workDirSchema.optional(),
+    conversationId: z.string().optional(),
+  })
+  .refine((data) => data.scope !== 'directory' || data.directory, {
+    message: 'Directory is required for directory rules',
+  })
+  .refine((data) => data.scope !== 'conversation' || data.conversationId, {
+    message: 'Conversation ID is required for conversation rules',
+  });
+
+export type ToolRuleRequest = z.infer<typeof toolRuleSchema>;
+
+export const toolRuleQuerySchema = z.object({
+  scope: toolRuleScopeSchema.optional(),
+});
+
+export type ToolRuleQueryParams = z.infer<typeof toolRuleQuerySchema>;
+
+// Conversation export query parameters
+export const exportQuerySchema = z.object({
+  format: z.enum(['markdown', 'json', 'html']).default('markdown'),
+});
+
+export type ExportQueryParams = z.infer<typeof exportQuerySchema>;
+
+// Local CLI session import (session IDs are UUIDs, which also keeps them safe to use in paths)
+export const sessionImportSchema = z.object({
+  sessionId: z
+    .string()
+    .regex(/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i, 'Invalid session ID'),
+});
+
+export type SessionImportRequest = z.infer<typeof sessionImportSchema>;
+
+// Edit of the last user message
+export const messageEditSchema = z.object({
+  message: z
+    .string()
+    .min(1, 'Message is required')
+    .max(MAX_MESSAGE_LENGTH, `Message too long (max ${MAX_MESSAGE_LENGTH} characters)`),
+});
+
+export type MessageEditRequest = z.infer<typeof messageEditSchema>;
+
+// Fork request (without fromMessageId the fork copies the whole conversation)
+export const forkSchema = z.object({
+  fromMessageId: z.string().min(1).optional(),
+});
+
+export type ForkRequest = z.infer<typeof forkSchema>;
+
+// Directory picker label (null clears it)
+export const directoryLabelSchema = z.object({
+  label: z.string().trim().min(1).max(MAX_LABEL_LENGTH).nullable(),
+});
+
+export type DirectoryLabelRequest = z.infer<typeof directoryLabelSchema>;
+
+// Tag names are listed one per line in the auto-tagging prompt, and Claude
+// answers with them separated by |, so neither may appear in a name
+const tagNameSchema = z
+  .string()
+  .trim()
+  .min(1, 'Tag name is required')
+  .max(MAX_TAG_NAME_LENGTH, `Tag name too long (max ${MAX_TAG_NAME_LENGTH} characters)`)
+  .refine((name) => !/[\r\n|]/.test(name), 'Tag name cannot contain line breaks or |');
+
+// Tag creation
+export const tagSchema = z.object({
+  name: tagNameSchema,
+  color: colorSchema.nullable().optional(),
+});
+
+export type TagRequest = z.infer<typeof tagSchema>;
+
+// Tag update validation (at least one field required)
+export const tagUpdateSchema = z
+  .object({
+    name: tagNameSchema.optional(),
+    color: colorSchema.nullable().optional(),
+  })
+  .refine((data) => Object.values(data).some((value) => value !== undefined), {
+    message: 'At least one field to update is required',
+  });
+
+export type TagUpdateRequest = z.infer<typeof tagUpdateSchema>;
+
+// The complete set of tags of a conversation
+export const conversationTagsSchema = z.object({
+  tagIds: z.array(z.string().min(1)).max(MAX_CONVERSATION_TAGS, `Too many tags (max ${MAX_CONVERSATION_TAGS})`),
+});
+
+export type ConversationTagsRequest = z.infer<typeof conversationTagsSchema>;
+
 // Pagination query parameters
 export const paginationSchema = z.object({
   limit: z
@@ -58,6 +302,70 @@ export const paginationSchema = z.object({
 
 export type PaginationParams = z.infer<typeof paginationSchema>;
 
+// Conversation list query parameters
+export const conversationListSchema = paginationSchema.extend({
+  parentId: z.string().min(1).optional(),
+  // A tag ID
+  tag: z.string().min(1).optional(),
+  // Archived conversations are only listed with ?archived=true
+  archived: z
+    .enum(['true', 'false'])
+    .optional()
+    .transform((val) => val === 'true'),
+});
+
+export type ConversationListParams = z.infer<typeof conversationListSchema>;
+
+// MCP server list query parameters (without a conversation, the default directory's servers)
+export const mcpServerQuerySchema = z.object({
+  conversationId: z.string().min(1).optional(),
+});
+
+export type McpServerQueryParams = z.infer<typeof mcpServerQuerySchema>;
+
+// Usage report query parameters
+export const usageQuerySchema = z.object({
+  from: z.iso.date().optional(),
+  to: z.iso.date().optional(),
+  groupBy: z.enum(['day', 'conversation']).default('day'),
+});
+
+export type UsageQueryParams = z.infer<typeof usageQuerySchema>;
+
+// Full-text search query parameters
+export const searchQuerySchema = paginationSchema.extend({
+  q: z
+    .string()
+    .trim()
+    .min(1, 'Search query is required')
+    .max(MAX_SEARCH_QUERY_LENGTH, `Search query too long (max ${MAX_SEARCH_QUERY_LENGTH} characters)`),
+  role: z.enum(['user', 'assistant', 'system']).optional(),
+  from: z.iso.date().optional(),
+  to: z.iso.date().optional(),
+  cursor: z
+    .string()
+    .refine((cursor) => decodeSearchCursor(cursor) !== null, { message: 'Invalid cursor' })
+    .optional(),
+});
+
+export type SearchQueryParams = z.infer<typeof searchQuerySchema>;
+
+// Admin budget update (null clears an override, falling back to the server default)
+const budgetLimitSchema = z.number().positive().nullable().optional();
+
+export const budgetUpdateSchema = z
+  .object({
+    dailyCostUsd: budgetLimitSchema,
+    monthlyCostUsd: budgetLimitSchema,
+    dailyTokens: z.number().int().positive().nullable().optional(),
+    monthlyTokens: z.number().int().positive().nullable().optional(),
+  })
+  .refine((data) => Object.values(data).some((value) => value !== undefined), {
+    message: 'At least one budget field is required',
+  });
+
+export type BudgetUpdateRequest = z.infer<typeof budgetUpdateSchema>;
+
 /**
  * Parse and validate request body with Zod schema
  * Returns the validated data or throws an error with details
@@ -77,6 +385,33 @@ export async function parseBody<T>(
   return result.data;
 }
 
+/**
+ * Parse and validate a multipart/form-data body with Zod schema.
+ * File fields are always arrays, other fields are their first value.
+ */
+export async function parseFormData<T>(
+  request: Request,
+  schema: z.ZodSchema<T>
+): Promise<T> {
+  const form = await request.formData().catch(() => null);
+  if (!form) {
+    throw new ValidationError('Invalid multipart body');
+  }
+
+  const body: Record<string, unknown> = {};
+  for (const key of new Set(form.keys())) {
+    const values = form.getAll(key);
+    body[key] = values.some((value) => value instanceof File) ? values : values[0];
+  }
+
+  const result = schema.safeParse(body);
+  if (!result.success) {
+    throw new ValidationError(result.error.message);
+  }
+
+  return result.data;
+}
+
 /**
  * Parse and validate query parameters with Zod schema
  */